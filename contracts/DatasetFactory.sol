@@ -16,6 +16,14 @@ import {ISubscriptionManager} from "./interfaces/ISubscriptionManager.sol";
  */
 contract DatasetFactory is Ownable {
   error ZERO_ADDRESS(string reason);
+  error TEMPLATE_VERSION_INVALID(uint256 version);
+
+  event ManagersTemplateVersionAdded(
+    uint256 indexed version,
+    address subscriptionManager,
+    address distributionManager,
+    address verifierManager
+  );
 
   ///@dev address of the DatasetNFT contract
   IDatasetNFT public datasetNFT;
@@ -25,10 +33,26 @@ contract DatasetFactory is Ownable {
   address public distributionManagerImpl;
   ///@dev  address of deployed VerifierManager implementation contract
   address public verifierManagerImpl;
+  ///@dev Manager implementation contracts of each template version, version `i + 1` being at index `i`
+  IDatasetNFT.ManagersConfig[] internal _templateVersions;
+  ///@dev template version of each registered Manager implementations, by hash of their config
+  mapping(bytes32 configHash => uint256 version) internal _templateVersionOf;
+
+  /**
+   * @notice Sets `owner_` as the owner of the Factory
+   * @dev The owner is set explicitly for the Factory to be deployable through a CREATE2 factory
+   * @param owner_ The address of the owner of the Factory
+   */
+  constructor(address owner_) {
+    if (owner_ == address(0)) revert ZERO_ADDRESS("owner");
+    _transferOwnership(owner_);
+  }
 
   /**
    * @notice Configures the Factory by setting the addresses of the Managers and DatasetNFT contracts
-   * @dev Only callable by the owner of this contract (see `Ownable.sol`)
+   * @dev Only callable by the owner of this contract (see `Ownable.sol`).
+   * Registers the Manager implementation contracts as a new template version if they are not registered yet.
+   * Emits a {ManagersTemplateVersionAdded} event on condition.
    * @param dataset The address of the DatasetNFT contract
    * @param subscriptionManager The address of the SubscriptionManager implementation contract
    * @param distributionManager The address of the DistributionManager implementation contract
@@ -48,6 +72,60 @@ contract DatasetFactory is Ownable {
     subscriptionManagerImpl = subscriptionManager;
     distributionManagerImpl = distributionManager;
     verifierManagerImpl = verifierManager;
+
+    bytes32 configHash = _configHash(subscriptionManager, distributionManager, verifierManager);
+    if (_templateVersionOf[configHash] == 0) {
+      _templateVersions.push(
+        IDatasetNFT.ManagersConfig({
+          subscriptionManager: subscriptionManager,
+          distributionManager: distributionManager,
+          verifierManager: verifierManager
+        })
+      );
+      _templateVersionOf[configHash] = _templateVersions.length;
+      emit ManagersTemplateVersionAdded(
+        _templateVersions.length,
+        subscriptionManager,
+        distributionManager,
+        verifierManager
+      );
+    }
+  }
+
+  /**
+   * @notice Returns the number of registered Manager template versions, versions ranging from 1 to this number
+   * @return uint256 The number of template versions
+   */
+  function templateVersionCount() external view returns (uint256) {
+    return _templateVersions.length;
+  }
+
+  /**
+   * @notice Returns the Manager implementation contracts of a template version
+   * @param version The template version, starting from 1
+   * @return config The Manager implementation contracts of `version`
+   */
+  function templateVersion(uint256 version) external view returns (IDatasetNFT.ManagersConfig memory config) {
+    if (version == 0 || version > _templateVersions.length) revert TEMPLATE_VERSION_INVALID(version);
+    return _templateVersions[version - 1];
+  }
+
+  /**
+   * @notice Returns the template version of the Manager implementation contracts used for new Datasets
+   * @return uint256 The current template version, 0 if the Factory is not configured
+   */
+  function currentTemplateVersion() external view returns (uint256) {
+    return _templateVersionOf[_configHash(subscriptionManagerImpl, distributionManagerImpl, verifierManagerImpl)];
+  }
+
+  /**
+   * @notice Returns the template version the Managers of a Dataset NFT token are cloned from
+   * @param id The ID of the target Dataset NFT token
+   * @return uint256 The template version, 0 if the Managers are not cloned from a registered template version
+   */
+  function datasetTemplateVersion(uint256 id) external view returns (uint256) {
+    (address subscriptionManager, address distributionManager, address verifierManager) = datasetNFT.configurations(id);
+    return _templateVersionOf[_configHash(subscriptionManager, distributionManager, verifierManager)];
   }
 
   /**
@@ -148,4 +226,19 @@ contract DatasetFactory is Ownable {
     dm.setDatasetOwnerPercentage(dsOwnerFeePercentage);
     dm.setTagWeights(tags, weights);
   }
+
+  /**
+   * @notice Internal function identifying a set of Manager implementation contracts
+   * @param subscriptionManager The address of the SubscriptionManager implementation contract
+   * @param distributionManager The address of the DistributionManager implementation contract
+   * @param verifierManager The address of the VerifierManager implementation contract
+   * @return bytes32 The hash of the Manager implementation contracts
+   */
+  function _configHash(
+    address subscriptionManager,
+    address distributionManager,
+    address verifierManager
+  ) internal pure returns (bytes32) {
+    return keccak256(abi.encode(subscriptionManager, distributionManager, verifierManager));
+  }
 }
@@ -17,6 +17,7 @@ import {IDistributionManager} from "./interfaces/IDistributionManager.sol";
 import {ISubscriptionManager} from "./interfaces/ISubscriptionManager.sol";
 import {IVerifierManager} from "./interfaces/IVerifierManager.sol";
 import {ERC2771ContextMutableForwarderUpgradeable} from "./utils/ERC2771ContextMutableForwarderUpgradeable.sol";
+import {TypedSignatures} from "./utils/TypedSignatures.sol";
 
 /**
  * @title DatasetNFT contract
@@ -80,6 +81,7 @@ contract DatasetNFT is
   mapping(uint256 id => DeployerFeeModel feeModel) public deployerFeeModels;
   uint256 public extraFeePerPendingFragment;
   mapping(uint256 id => bool enabled) public datasetIdToPendingFragmentExtraFeeEnabled;
+  bool public eip712SignaturesEnabled;
 
   modifier onlyTokenOwner(uint256 id) {
     if (_ownerOf(id) != _msgSender()) revert NOT_OWNER(id, _msgSender());
@@ -298,6 +300,16 @@ contract DatasetNFT is
     extraFeePerPendingFragment = fee;
   }
 
+  /**
+   * @notice Switches the DT service signatures verified by DatasetNFT, FragmentNFT and DistributionManager contracts
+   * between EIP-712 typed data (`true`) and legacy Ethereum Signed Messages of packed data (`false`)
+   * @dev Only callable by DatasetNFT ADMIN
+   * @param enabled Flag to indicate EIP-712 (`true`) or legacy (`false`) signatures
+   */
+  function setEIP712SignaturesEnabled(bool enabled) external onlyRole(DEFAULT_ADMIN_ROLE) {
+    eip712SignaturesEnabled = enabled;
+  }
+
   /**
    * @notice Enables/disables extra fee per fragment proposal feature by dataset
    * @dev Only callable by DatasetNFT OWNER
@@ -534,13 +546,16 @@ contract DatasetNFT is
   }
 
   /**
-   * @notice Returns an Ethereum Signed Message hash for minting a Dataset NFT token
-   * @dev See `ECDSA.sol`
+   * @notice Returns the hash signed by the DT service for minting a Dataset NFT token
+   * @dev If `eip712SignaturesEnabled`, it is the EIP-712 hash of a `Mint` struct in the "DatasetNFT" domain,
+   * otherwise it is an Ethereum Signed Message hash of the packed data. See `ECDSA.sol`
    * @param uuidHashed The keccak256 hash of the off-chain generated UUID for the Dataset
    * @param to Address of the Dataset owner, approved by off-chain service
-   * @return bytes32 The generated Ethereum signed message hash
+   * @return bytes32 The generated message hash
    */
   function _mintMessageHash(bytes32 uuidHashed, address to) private view returns (bytes32) {
+    if (eip712SignaturesEnabled)
+      return TypedSignatures.hashTypedData("DatasetNFT", TypedSignatures.hashMint(uuidHashed, to));
     return ECDSA.toEthSignedMessageHash(abi.encodePacked(block.chainid, address(this), uuidHashed, to));
   }
 
@@ -14,6 +14,7 @@ import {IVerifierManager} from "./interfaces/IVerifierManager.sol";
 import {
   ERC2771ContextExternalForwarderSourceUpgradeable
 } from "./utils/ERC2771ContextExternalForwarderSourceUpgradeable.sol";
+import {TypedSignatures} from "./utils/TypedSignatures.sol";
 
 /**
  * @title FragmentNFT contract
@@ -569,23 +570,29 @@ contract FragmentNFT is IFragmentNFT, ERC721Upgradeable, ERC2771ContextExternalF
   }
 
   /**
-   * @notice Returns an Ethereum Signed Message hash for proposing a specific contribution type
+   * @notice Returns the hash signed by the DT service for proposing a specific contribution type
+   * @dev If EIP-712 signatures are enabled in DatasetNFT, it is the EIP-712 hash of a `Propose` struct
+   * in the "FragmentNFT" domain, otherwise it is an Ethereum Signed Message hash of the packed data
    * @param id The ID of the pending Fragment NFT associated with the proposed contribution
    * @param to The address of the contributor
    * @param tag The encoded label (Hash of the contribution's name) indicating the type of contribution
-   * @return bytes32 The generated Ethereum signed message hash
+   * @return bytes32 The generated message hash
    */
   function _proposeMessageHash(uint256 id, address to, bytes32 tag) private view returns (bytes32) {
+    if (dataset.eip712SignaturesEnabled())
+      return TypedSignatures.hashTypedData("FragmentNFT", TypedSignatures.hashPropose(datasetId, id, to, tag));
     return ECDSA.toEthSignedMessageHash(abi.encodePacked(block.chainid, address(dataset), datasetId, id, to, tag));
   }
 
   /**
-   * @notice Returns an Ethereum Signed Message hash for proposing a batch of specified contribution types
+   * @notice Returns the hash signed by the DT service for proposing a batch of specified contribution types
+   * @dev If EIP-712 signatures are enabled in DatasetNFT, it is the EIP-712 hash of a `ProposeMany` struct
+   * in the "FragmentNFT" domain, otherwise it is an Ethereum Signed Message hash of the packed data
    * @param fromId The first pending Fragment NFT ID in the batch (associated with the first proposal)
    * @param toId The last pending Fragment NFT ID in the batch (associated with the last proposal)
    * @param owners An array containing the addresses of the respective contributors
    * @param tags_ An array containing the encoded labels (Hash of the contributions' name) indicating the types
-   * @return bytes32 The generated Ethereum signed message hash
+   * @return bytes32 The generated message hash
    */
   function _proposeManyMessageHash(
     uint256 fromId,
@@ -593,6 +600,12 @@ contract FragmentNFT is IFragmentNFT, ERC721Upgradeable, ERC2771ContextExternalF
     address[] memory owners,
     bytes32[] memory tags_
   ) private view returns (bytes32) {
+    if (dataset.eip712SignaturesEnabled())
+      return
+        TypedSignatures.hashTypedData(
+          "FragmentNFT",
+          TypedSignatures.hashProposeMany(datasetId, fromId, toId, owners, tags_)
+        );
     return
       ECDSA.toEthSignedMessageHash(
         abi.encodePacked(block.chainid, address(dataset), datasetId, fromId, owners, toId, tags_)
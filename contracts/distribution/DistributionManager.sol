@@ -15,6 +15,7 @@ import {IFragmentNFT} from "../interfaces/IFragmentNFT.sol";
 import {
   ERC2771ContextExternalForwarderSourceUpgradeable
 } from "../utils/ERC2771ContextExternalForwarderSourceUpgradeable.sol";
+import {TypedSignatures} from "../utils/TypedSignatures.sol";
 
 /**
  * @title DistributionManager contract
@@ -47,6 +48,7 @@ contract DistributionManager is
   error TAG_WEIGHTS_SUM_INVALID(uint256 maximum, uint256 current);
   error DEPLOYER_FEE_BENEFICIARY_ZERO_ADDRESS();
   error SIGNATURE_OVERDUE();
+  error SIGNATURE_NONCE_INVALID(uint256 expected, uint256 provided);
   error NO_UNCLAIMED_PAYMENTS_AVAILABLE();
   error UNSUPPORTED_MSG_VALUE();
 
@@ -75,6 +77,7 @@ contract DistributionManager is
   EnumerableMap.Bytes32ToUintMap[] internal _versionedTagWeights;
   mapping(address => uint256) internal _firstUnclaimedContribution; // from fragments revenue
   uint256 internal _firstUnclaimed; // from owner's revenue
+  mapping(address beneficiary => uint256 nonce) public claimNonces; // next nonce of revenue claim signatures
 
   modifier onlyDatasetOwner() {
     if (dataset.ownerOf(datasetId) != _msgSender()) revert NOT_DATASET_OWNER(_msgSender());
@@ -255,19 +258,24 @@ contract DistributionManager is
    * @dev Only callable by the Dataset owner
    * @param sigValidSince The Unix timestamp after which claiming is enabled
    * @param sigValidTill The Unix timestamp until which claiming is enabled
+   * @param nonce The next claim nonce of the caller (see `claimNonces`), preventing signature replays
    * @param signature Signature from a DT service confirming the claiming request
    */
   function claimDatasetOwnerPayouts(
     uint256 sigValidSince,
     uint256 sigValidTill,
+    uint256 nonce,
     bytes calldata signature
   ) external onlyDatasetOwner nonReentrant {
     // Validate state & signature
     if (block.timestamp < sigValidSince || block.timestamp > sigValidTill) revert SIGNATURE_OVERDUE();
     if (_firstUnclaimed >= payments.length) revert NO_UNCLAIMED_PAYMENTS_AVAILABLE();
-    bytes32 msgHash = _claimRevenueMessageHash(_msgSender(), sigValidSince, sigValidTill);
+    uint256 expectedNonce = claimNonces[_msgSender()];
+    if (nonce != expectedNonce) revert SIGNATURE_NONCE_INVALID(expectedNonce, nonce);
+    bytes32 msgHash = _claimRevenueMessageHash(_msgSender(), sigValidSince, sigValidTill, nonce);
     address signer = ECDSA.recover(msgHash, signature);
     if (!dataset.isSigner(signer)) revert BAD_SIGNATURE(msgHash, signer);
+    claimNonces[_msgSender()] = expectedNonce + 1;
 
     _claimOwnerPayouts();
   }
@@ -279,20 +287,25 @@ contract DistributionManager is
    * Only callable by the Dataset owner.
    * @param sigValidSince The Unix timestamp after which claiming is enabled
    * @param sigValidTill The Unix timestamp until which claiming is enabled
+   * @param nonce The next claim nonce of the caller (see `claimNonces`), preventing signature replays
    * @param payoutSignature Signature from a DT service confirming the claiming request
    */
   function claimDatasetOwnerAndFragmentPayouts(
     uint256 sigValidSince,
     uint256 sigValidTill,
+    uint256 nonce,
     bytes calldata payoutSignature
   ) external onlyDatasetOwner nonReentrant {
     // Validate signature
     if (block.timestamp < sigValidSince || block.timestamp > sigValidTill) revert SIGNATURE_OVERDUE();
     if (_firstUnclaimed >= payments.length) revert NO_UNCLAIMED_PAYMENTS_AVAILABLE();
 
-    bytes32 msgHash = _claimRevenueMessageHash(_msgSender(), sigValidSince, sigValidTill);
+    uint256 expectedNonce = claimNonces[_msgSender()];
+    if (nonce != expectedNonce) revert SIGNATURE_NONCE_INVALID(expectedNonce, nonce);
+    bytes32 msgHash = _claimRevenueMessageHash(_msgSender(), sigValidSince, sigValidTill, nonce);
     address signer = ECDSA.recover(msgHash, payoutSignature);
     if (!dataset.isSigner(signer)) revert BAD_SIGNATURE(msgHash, signer);
+    claimNonces[_msgSender()] = expectedNonce + 1;
 
     // Claim Pending Owner Fees
     _claimOwnerPayouts();
@@ -307,14 +320,23 @@ contract DistributionManager is
    * Emits {PayoutSent} event(s).
    * @param sigValidSince The Unix timestamp after which claiming is enabled
    * @param sigValidTill The Unix timestamp until which claiming is enabled
+   * @param nonce The next claim nonce of the caller (see `claimNonces`), preventing signature replays
    * @param signature Signature from a DT service confirming the claiming request
    */
-  function claimPayouts(uint256 sigValidSince, uint256 sigValidTill, bytes calldata signature) external nonReentrant {
+  function claimPayouts(
+    uint256 sigValidSince,
+    uint256 sigValidTill,
+    uint256 nonce,
+    bytes calldata signature
+  ) external nonReentrant {
     // Validate signature
     if (block.timestamp < sigValidSince || block.timestamp > sigValidTill) revert SIGNATURE_OVERDUE();
-    bytes32 msgHash = _claimRevenueMessageHash(_msgSender(), sigValidSince, sigValidTill);
+    uint256 expectedNonce = claimNonces[_msgSender()];
+    if (nonce != expectedNonce) revert SIGNATURE_NONCE_INVALID(expectedNonce, nonce);
+    bytes32 msgHash = _claimRevenueMessageHash(_msgSender(), sigValidSince, sigValidTill, nonce);
     address signer = ECDSA.recover(msgHash, signature);
     if (!dataset.isSigner(signer)) revert BAD_SIGNATURE(msgHash, signer);
+    claimNonces[_msgSender()] = expectedNonce + 1;
 
     // Claim payouts
     _claimPayouts();
@@ -461,21 +483,31 @@ contract DistributionManager is
   }
 
   /**
-   * @notice Returns an Ethereum Signed Message hash for revenue claiming
-   * @dev Utilized for both revenue types (owneship-based and contribution-based)
+   * @notice Returns the hash signed by the DT service for revenue claiming
+   * @dev Utilized for both revenue types (owneship-based and contribution-based).
+   * If EIP-712 signatures are enabled in DatasetNFT, it is the EIP-712 hash of a `ClaimRevenue` struct
+   * in the "DistributionManager" domain, otherwise it is an Ethereum Signed Message hash of the packed data.
    * @param beneficiary The address of the beneficiary
    * @param sigValidSince The Unix timestamp after which claiming is enabled
    * @param sigValidTill The Unix timestamp until which claiming is enabled
-   * @return bytes32 The generated Ethereum signed message hash
+   * @param nonce The claim nonce of the beneficiary
+   * @return bytes32 The generated message hash
    */
   function _claimRevenueMessageHash(
     address beneficiary,
     uint256 sigValidSince,
-    uint256 sigValidTill
+    uint256 sigValidTill,
+    uint256 nonce
   ) private view returns (bytes32) {
+    if (dataset.eip712SignaturesEnabled())
+      return
+        TypedSignatures.hashTypedData(
+          "DistributionManager",
+          TypedSignatures.hashClaimRevenue(beneficiary, sigValidSince, sigValidTill, nonce)
+        );
     return
       ECDSA.toEthSignedMessageHash(
-        abi.encodePacked(block.chainid, address(this), beneficiary, sigValidSince, sigValidTill)
+        abi.encodePacked(block.chainid, address(this), beneficiary, sigValidSince, sigValidTill, nonce)
       );
   }
 
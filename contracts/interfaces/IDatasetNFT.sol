@@ -57,6 +57,17 @@ interface IDatasetNFT is IERC721Upgradeable {
    */
   function setManagers(uint256 id, ManagersConfig calldata config) external;
 
+  /**
+   * @notice Returns the Manager implementation contracts the Managers of a specific Dataset NFT are cloned from
+   * @param id The ID of the target Dataset NFT token
+   * @return subscriptionManager The address of the SubscriptionManager implementation contract
+   * @return distributionManager The address of the DistributionManager implementation contract
+   * @return verifierManager The address of the VerifierManager implementation contract
+   */
+  function configurations(
+    uint256 id
+  ) external view returns (address subscriptionManager, address distributionManager, address verifierManager);
+
   /**
    * @notice Enables/disables extra fee per fragment proposal feature by dataset
    * @param datasetId The ID of the Dataset NFT token
@@ -144,6 +155,12 @@ interface IDatasetNFT is IERC721Upgradeable {
    */
   function isSigner(address account) external view returns (bool);
 
+  /**
+   * @notice Checks whether DT service signatures are EIP-712 typed data instead of legacy Ethereum Signed Messages
+   * @return bool True if EIP-712 signatures are enabled, false if not
+   */
+  function eip712SignaturesEnabled() external view returns (bool);
+
   /**
    * @notice Checks whether the given token address is approved for payments (subscription fees)
    * @param token The address of the token to check (address(0) for native currency)
@@ -28,9 +28,18 @@ interface IDistributionManager is IDatasetLinkInitializable, IERC165Upgradeable
    * Emits {PayoutSent} event(s).
    * @param sigValidSince The Unix timestamp after which claiming is enabled
    * @param sigValidTill The Unix timestamp until which claiming is enabled
+   * @param nonce The next claim nonce of the caller (see `claimNonces`), preventing signature replays
    * @param signature Signature from a DT service confirming the claiming request
    */
-  function claimPayouts(uint256 sigValidSince, uint256 sigValidTill, bytes calldata signature) external;
+  function claimPayouts(uint256 sigValidSince, uint256 sigValidTill, uint256 nonce, bytes calldata signature) external;
+
+  /**
+   * @notice Retrieves the next nonce to be signed in a revenue claim of `beneficiary`
+   * @dev The nonce is shared by all revenue claim types and increases on every successful claim
+   * @param beneficiary The address of the beneficiary
+   * @return uint256 The next claim nonce
+   */
+  function claimNonces(address beneficiary) external view returns (uint256);
 
   /**
    * @notice Retrieves the respective weights of the provided tags
@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: MIT
+pragma solidity =0.8.18;
+
+import {ProxyAdmin} from "@openzeppelin/contracts/proxy/transparent/ProxyAdmin.sol";
+
+/**
+ * @title DeterministicProxyAdmin contract
+ * @author Nuklai
+ * @notice ProxyAdmin owned by the address given on construction instead of its deployer,
+ * so that it can be deployed at the same address on every network through a CREATE2 factory
+ * @dev Extends ProxyAdmin
+ */
+contract DeterministicProxyAdmin is ProxyAdmin {
+  /**
+   * @param owner_ The address of the owner of the ProxyAdmin
+   */
+  constructor(address owner_) {
+    // Reverts on the zero address, the deployer being the owner until then
+    transferOwnership(owner_);
+  }
+}
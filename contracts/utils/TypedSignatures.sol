@@ -0,0 +1,120 @@
+// SPDX-License-Identifier: MIT
+pragma solidity =0.8.18;
+
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+
+/**
+ * @title TypedSignatures library
+ * @author Nuklai
+ * @notice Defines the EIP-712 domains and typed structs of the DT service signatures
+ * @dev The domain separator is computed on every call instead of being cached in storage or immutables,
+ * so that it stays valid for minimal proxies (clones) and upgradeable proxies without any initialization.
+ */
+library TypedSignatures {
+  string private constant _VERSION = "1";
+
+  bytes32 private constant _DOMAIN_TYPEHASH =
+    keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+
+  bytes32 private constant _MINT_TYPEHASH = keccak256("Mint(bytes32 uuidHashed,address to)");
+
+  bytes32 private constant _PROPOSE_TYPEHASH =
+    keccak256("Propose(uint256 datasetId,uint256 id,address to,bytes32 tag)");
+
+  bytes32 private constant _PROPOSE_MANY_TYPEHASH =
+    keccak256("ProposeMany(uint256 datasetId,uint256 fromId,uint256 toId,address[] owners,bytes32[] tags)");
+
+  bytes32 private constant _CLAIM_REVENUE_TYPEHASH =
+    keccak256("ClaimRevenue(address beneficiary,uint256 sigValidSince,uint256 sigValidTill,uint256 nonce)");
+
+  /**
+   * @notice Returns the EIP-712 domain separator of the calling contract
+   * @param name The name of the signing domain
+   * @return bytes32 The domain separator
+   */
+  function domainSeparator(string memory name) internal view returns (bytes32) {
+    return
+      keccak256(
+        abi.encode(_DOMAIN_TYPEHASH, keccak256(bytes(name)), keccak256(bytes(_VERSION)), block.chainid, address(this))
+      );
+  }
+
+  /**
+   * @notice Returns the EIP-712 hash of a typed struct in the signing domain of the calling contract
+   * @param name The name of the signing domain
+   * @param structHash The hash of the encoded typed struct
+   * @return bytes32 The typed data hash to recover the signer from
+   */
+  function hashTypedData(string memory name, bytes32 structHash) internal view returns (bytes32) {
+    return ECDSA.toTypedDataHash(domainSeparator(name), structHash);
+  }
+
+  /**
+   * @notice Returns the hash of a `Mint` struct, signed for minting a Dataset NFT token
+   * @param uuidHashed The keccak256 hash of the off-chain generated UUID for the Dataset
+   * @param to Address of the Dataset owner
+   * @return bytes32 The struct hash
+   */
+  function hashMint(bytes32 uuidHashed, address to) internal pure returns (bytes32) {
+    return keccak256(abi.encode(_MINT_TYPEHASH, uuidHashed, to));
+  }
+
+  /**
+   * @notice Returns the hash of a `Propose` struct, signed for proposing a specific contribution type
+   * @param datasetId The ID of the Dataset NFT token
+   * @param id The ID of the pending Fragment NFT associated with the proposed contribution
+   * @param to The address of the contributor
+   * @param tag The encoded label (Hash of the contribution's name) indicating the type of contribution
+   * @return bytes32 The struct hash
+   */
+  function hashPropose(uint256 datasetId, uint256 id, address to, bytes32 tag) internal pure returns (bytes32) {
+    return keccak256(abi.encode(_PROPOSE_TYPEHASH, datasetId, id, to, tag));
+  }
+
+  /**
+   * @notice Returns the hash of a `ProposeMany` struct, signed for proposing a batch of contribution types
+   * @dev Arrays are encoded as the hash of their concatenated (32-byte padded) elements, as specified by EIP-712
+   * @param datasetId The ID of the Dataset NFT token
+   * @param fromId The first pending Fragment NFT ID in the batch
+   * @param toId The last pending Fragment NFT ID in the batch
+   * @param owners An array containing the addresses of the respective contributors
+   * @param tags An array containing the encoded labels indicating the types of the contributions
+   * @return bytes32 The struct hash
+   */
+  function hashProposeMany(
+    uint256 datasetId,
+    uint256 fromId,
+    uint256 toId,
+    address[] memory owners,
+    bytes32[] memory tags
+  ) internal pure returns (bytes32) {
+    return
+      keccak256(
+        abi.encode(
+          _PROPOSE_MANY_TYPEHASH,
+          datasetId,
+          fromId,
+          toId,
+          keccak256(abi.encodePacked(owners)),
+          keccak256(abi.encodePacked(tags))
+        )
+      );
+  }
+
+  /**
+   * @notice Returns the hash of a `ClaimRevenue` struct, signed for revenue claiming
+   * @param beneficiary The address of the beneficiary
+   * @param sigValidSince The Unix timestamp after which claiming is enabled
+   * @param sigValidTill The Unix timestamp until which claiming is enabled
+   * @param nonce The claim nonce of the beneficiary
+   * @return bytes32 The struct hash
+   */
+  function hashClaimRevenue(
+    address beneficiary,
+    uint256 sigValidSince,
+    uint256 sigValidTill,
+    uint256 nonce
+  ) internal pure returns (bytes32) {
+    return keccak256(abi.encode(_CLAIM_REVENUE_TYPEHASH, beneficiary, sigValidSince, sigValidTill, nonce));
+  }
+}
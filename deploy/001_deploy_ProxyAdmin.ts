@@ -1,5 +1,6 @@
 import { HardhatRuntimeEnvironment } from 'hardhat/types';
 import { DeployFunction } from 'hardhat-deploy/types';
+import { deployment } from '../utils';
 
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployments, getNamedAccounts } = hre;
@@ -7,9 +8,10 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
 
   const { dtAdmin } = await getNamedAccounts();
 
-  const deployedProxyAdmin = await deploy('ProxyAdmin', {
-    from: dtAdmin,
-  });
+  const deployedProxyAdmin = await deploy(
+    'ProxyAdmin',
+    deployment.getDeployOptions('ProxyAdmin', dtAdmin)
+  );
 
   console.log('ProxyAdmin deployed successfully at', deployedProxyAdmin.address);
 
@@ -1,5 +1,6 @@
 import { HardhatRuntimeEnvironment } from 'hardhat/types';
 import { DeployFunction } from 'hardhat-deploy/types';
+import { deployment } from '../utils';
 
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployments, getNamedAccounts } = hre;
@@ -7,9 +8,10 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
 
   const { dtAdmin } = await getNamedAccounts();
 
-  const deployedFragment = await deploy('FragmentNFT', {
-    from: dtAdmin,
-  });
+  const deployedFragment = await deploy(
+    'FragmentNFT',
+    deployment.getDeployOptions('FragmentNFT', dtAdmin)
+  );
 
   console.log('FragmentNFT Implementation deployed successfully at', deployedFragment.address);
 
@@ -1,8 +1,7 @@
 import { HardhatRuntimeEnvironment } from 'hardhat/types';
 import { DeployFunction } from 'hardhat-deploy/types';
 import { DatasetNFT } from '@typechained';
-import { ZeroAddress } from 'ethers';
-import { constants } from '../utils';
+import { constants, deployment } from '../utils';
 
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployments, getNamedAccounts, ethers } = hre;
@@ -18,21 +17,10 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   console.log('ProxyAdmin: ', proxyAdminAddress);
   console.log('DT admin: ', dtAdmin);
 
-  const deployedDatasetNFT = await deploy('DatasetNFT', {
-    contract: 'DatasetNFT',
-    from: dtAdmin,
-    log: true,
-    proxy: {
-      owner: proxyAdminAddress,
-      proxyContract: 'TransparentUpgradeableProxy',
-      execute: {
-        init: {
-          methodName: 'initialize',
-          args: [dtAdmin, ZeroAddress],
-        },
-      },
-    },
-  });
+  const deployedDatasetNFT = await deploy(
+    'DatasetNFT',
+    deployment.getDeployOptions('DatasetNFT', dtAdmin, { ProxyAdmin: proxyAdminAddress })
+  );
 
   console.log('DatasetNFT deployed successfully at', deployedDatasetNFT.address);
 
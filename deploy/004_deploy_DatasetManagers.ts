@@ -1,5 +1,6 @@
 import { HardhatRuntimeEnvironment } from 'hardhat/types';
 import { DeployFunction } from 'hardhat-deploy/types';
+import { deployment } from '../utils';
 
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployments, getNamedAccounts } = hre;
@@ -7,24 +8,27 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
 
   const { dtAdmin } = await getNamedAccounts();
 
-  const deployedErc20SubscriptionManager = await deploy('ERC20SubscriptionManager', {
-    from: dtAdmin,
-  });
+  const deployedErc20SubscriptionManager = await deploy(
+    'ERC20SubscriptionManager',
+    deployment.getDeployOptions('ERC20SubscriptionManager', dtAdmin)
+  );
 
   console.log(
     'ERC20SubscriptionManager deployed successfully at',
     deployedErc20SubscriptionManager.address
   );
 
-  const deployedVerifierManager = await deploy('VerifierManager', {
-    from: dtAdmin,
-  });
+  const deployedVerifierManager = await deploy(
+    'VerifierManager',
+    deployment.getDeployOptions('VerifierManager', dtAdmin)
+  );
 
   console.log('VerifierManager deployed successfully at', deployedVerifierManager.address);
 
-  const deployedDistributionManager = await deploy('DistributionManager', {
-    from: dtAdmin,
-  });
+  const deployedDistributionManager = await deploy(
+    'DistributionManager',
+    deployment.getDeployOptions('DistributionManager', dtAdmin)
+  );
 
   console.log('DistributionManager deployed successfully at', deployedDistributionManager.address);
 
@@ -1,5 +1,6 @@
 import { HardhatRuntimeEnvironment } from 'hardhat/types';
 import { DeployFunction } from 'hardhat-deploy/types';
+import { deployment } from '../utils';
 
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployments, getNamedAccounts, ethers } = hre;
@@ -10,19 +11,20 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const dataset = await ethers.getContract('DatasetNFT');
   const datasetAddress = await dataset.getAddress();
 
-  const deployedAcceptManuallyVerifier = await deploy('AcceptManuallyVerifier', {
-    from: dtAdmin,
-    args: [datasetAddress],
-  });
+  const deployedAcceptManuallyVerifier = await deploy(
+    'AcceptManuallyVerifier',
+    deployment.getDeployOptions('AcceptManuallyVerifier', dtAdmin, { DatasetNFT: datasetAddress })
+  );
 
   console.log(
     'AcceptManuallyVerifier deployed successfully at',
     deployedAcceptManuallyVerifier.address
   );
 
-  const deployedAcceptAllVerifier = await deploy('AcceptAllVerifier', {
-    from: dtAdmin,
-  });
+  const deployedAcceptAllVerifier = await deploy(
+    'AcceptAllVerifier',
+    deployment.getDeployOptions('AcceptAllVerifier', dtAdmin)
+  );
 
   console.log('AcceptAllVerifier deployed successfully at', deployedAcceptAllVerifier.address);
 
@@ -1,7 +1,7 @@
 import { HardhatRuntimeEnvironment } from 'hardhat/types';
 import { DeployFunction } from 'hardhat-deploy/types';
 import { DatasetFactory, DatasetNFT } from '@typechained';
-import { constants } from '../utils';
+import { constants, deployment } from '../utils';
 
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployments, getNamedAccounts, ethers } = hre;
@@ -13,9 +13,10 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
 
   console.log('DT admin: ', dtAdmin);
 
-  const deployedDatasetFactory = await deploy('DatasetFactory', {
-    from: dtAdmin,
-  });
+  const deployedDatasetFactory = await deploy(
+    'DatasetFactory',
+    deployment.getDeployOptions('DatasetFactory', dtAdmin)
+  );
 
   console.log('DatasetFactory deployed successfully at', deployedDatasetFactory.address);
 
@@ -0,0 +1,25 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { DeployFunction } from 'hardhat-deploy/types';
+import { mkdirSync, writeFileSync } from 'fs';
+import { manifest } from '../utils';
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, network } = hre;
+
+  const contracts = {} as Record<manifest.ManifestContractName, manifest.DeployedContract>;
+  for (const name of manifest.MANIFEST_CONTRACTS) {
+    const { address, abi, transactionHash, receipt } = await deployments.get(name);
+    contracts[name] = { address, abi, transactionHash, blockNumber: receipt?.blockNumber };
+  }
+
+  const deploymentManifest = await manifest.buildDeploymentManifest(hre, contracts);
+
+  mkdirSync('manifests', { recursive: true });
+  const path = `manifests/${network.name}.json`;
+  writeFileSync(path, JSON.stringify(deploymentManifest, null, 2) + '\n');
+
+  console.log('Deployment manifest written to', path);
+};
+
+export default func;
+func.tags = ['DeploymentManifest'];
@@ -0,0 +1,194 @@
+import {
+  DatasetNFT__factory,
+  DistributionManager__factory,
+  ERC20SubscriptionManager__factory,
+  FragmentNFT__factory,
+  VerifierManager__factory,
+} from '../typechain-types';
+import { Interface, Log, Provider, Result, getAddress } from 'ethers';
+import {
+  ContractKind,
+  EventArg,
+  IndexedContract,
+  IndexedEvent,
+  IndexerOptions,
+  IndexerStore,
+} from './types';
+
+const DEFAULT_BATCH_SIZE = 2000;
+
+const INDEXED_EVENTS: Record<ContractKind, string[]> = {
+  DatasetNFT: [
+    'Transfer',
+    'ManagersConfigChange',
+    'FragmentInstanceDeployment',
+    'FragmentExtraFeeSent',
+  ],
+  FragmentNFT: ['FragmentPending', 'FragmentAccepted', 'FragmentRejected', 'FragmentRemoved'],
+  SubscriptionManager: ['SubscriptionPaid', 'ConsumerAdded', 'ConsumerRemoved'],
+  DistributionManager: ['PaymentReceived', 'PayoutSent'],
+  VerifierManager: [
+    'FragmentPending',
+    'FragmentResolved',
+    'FragmentTagDefaultVerifierSet',
+    'FragmentTagVerifierSet',
+  ],
+};
+
+const INTERFACES: Record<ContractKind, Interface> = {
+  DatasetNFT: DatasetNFT__factory.createInterface(),
+  FragmentNFT: FragmentNFT__factory.createInterface(),
+  SubscriptionManager: ERC20SubscriptionManager__factory.createInterface(),
+  DistributionManager: DistributionManager__factory.createInterface(),
+  VerifierManager: VerifierManager__factory.createInterface(),
+};
+
+const toEventArg = (value: unknown): EventArg => {
+  if (value instanceof Result || Array.isArray(value)) return [...value].map(toEventArg);
+  if (typeof value === 'boolean' || typeof value === 'string') return value;
+  return String(value);
+};
+
+/**
+ * Indexes the events of a DatasetNFT contract and of the FragmentNFT and Manager instances of its Datasets,
+ * which are discovered from the `FragmentInstanceDeployment` and `ManagersConfigChange` events.
+ * Events are committed to `store` in batches of blocks, so that an interrupted sync resumes from the last batch.
+ */
+export class Indexer {
+  readonly datasetAddress: string;
+
+  constructor(
+    datasetAddress: string,
+    readonly provider: Provider,
+    readonly store: IndexerStore,
+    readonly options: IndexerOptions = {}
+  ) {
+    this.datasetAddress = getAddress(datasetAddress);
+  }
+
+  /**
+   * Indexes all blocks after the last checkpoint up to `toBlock` (defaults to the latest block),
+   * and returns the new checkpoint
+   */
+  async sync(toBlock?: number): Promise<number | undefined> {
+    const lastBlock = toBlock ?? (await this.provider.getBlockNumber());
+    const batchSize = this.options.batchSize ?? DEFAULT_BATCH_SIZE;
+    const checkpoint = await this.store.getCheckpoint();
+    const contracts = await this.store.getContracts();
+
+    let fromBlock = checkpoint !== undefined ? checkpoint + 1 : this.options.fromBlock ?? 0;
+
+    while (fromBlock <= lastBlock) {
+      const batchToBlock = Math.min(fromBlock + batchSize - 1, lastBlock);
+      const { events, discovered } = await this._indexRange(fromBlock, batchToBlock, contracts);
+
+      await this.store.commit({ events, contracts: discovered, checkpoint: batchToBlock });
+      contracts.push(...discovered);
+      fromBlock = batchToBlock + 1;
+    }
+
+    return this.store.getCheckpoint();
+  }
+
+  private async _indexRange(
+    fromBlock: number,
+    toBlock: number,
+    contracts: IndexedContract[]
+  ): Promise<{ events: IndexedEvent[]; discovered: IndexedContract[] }> {
+    const datasetContract: IndexedContract = {
+      address: this.datasetAddress,
+      kind: 'DatasetNFT',
+      datasetId: '',
+      fromBlock: 0,
+    };
+    const datasetLogs = await this.provider.getLogs({
+      address: this.datasetAddress,
+      fromBlock,
+      toBlock,
+    });
+    const events = this._parseLogs(datasetLogs, [datasetContract]);
+    const discovered: IndexedContract[] = [];
+
+    // ManagersConfigChange carries all Manager instances of a Dataset, including the unchanged ones
+    for (const contract of events.flatMap((event) => this._discover(event))) {
+      const known = [...contracts, ...discovered].some(
+        (c) => c.address === contract.address && c.kind === contract.kind
+      );
+      if (!known) discovered.push(contract);
+    }
+
+    // Instances deployed within the range are queried in the same range, as they emit only after deployment
+    const instances = [...contracts, ...discovered];
+    if (instances.length > 0) {
+      const instanceLogs = await this.provider.getLogs({
+        address: [...new Set(instances.map((contract) => contract.address))],
+        fromBlock,
+        toBlock,
+      });
+      events.push(...this._parseLogs(instanceLogs, instances));
+    }
+
+    events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+    return { events, discovered };
+  }
+
+  private _parseLogs(logs: Log[], contracts: IndexedContract[]): IndexedEvent[] {
+    const events: IndexedEvent[] = [];
+
+    for (const log of logs) {
+      const address = getAddress(log.address);
+      // The latest registration wins if the same address serves several Datasets or kinds
+      const contract = contracts.filter((c) => c.address === address).pop();
+      if (!contract) continue;
+
+      const event = INTERFACES[contract.kind].parseLog({
+        topics: log.topics as string[],
+        data: log.data,
+      });
+      if (!event || !INDEXED_EVENTS[contract.kind].includes(event.name)) continue;
+
+      const args: Record<string, EventArg> = {};
+      event.fragment.inputs.forEach((input, i) => (args[input.name] = toEventArg(event.args[i])));
+
+      events.push({
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        logIndex: log.index,
+        address,
+        contract: contract.kind,
+        datasetId:
+          contract.kind === 'DatasetNFT'
+            ? ((args.id ?? args.tokenId) as string | undefined)
+            : contract.datasetId,
+        name: event.name,
+        args,
+      });
+    }
+
+    return events;
+  }
+
+  private _discover(event: IndexedEvent): IndexedContract[] {
+    const datasetId = event.datasetId!;
+    const instance = (address: EventArg, kind: ContractKind): IndexedContract => ({
+      address: getAddress(address as string),
+      kind,
+      datasetId,
+      fromBlock: event.blockNumber,
+    });
+
+    switch (event.name) {
+      case 'FragmentInstanceDeployment':
+        return [instance(event.args.instance, 'FragmentNFT')];
+      case 'ManagersConfigChange':
+        return [
+          instance(event.args.subscriptionManager, 'SubscriptionManager'),
+          instance(event.args.distributionManager, 'DistributionManager'),
+          instance(event.args.verifierManager, 'VerifierManager'),
+        ];
+      default:
+        return [];
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { appendFileSync, existsSync, readFileSync, truncateSync } from 'fs';
+import { EventFilter, IndexedContract, IndexedEvent, IndexerBatch, IndexerStore } from './types';
+
+interface JsonDatabase {
+  checkpoint?: number;
+  contracts: IndexedContract[];
+  events: IndexedEvent[];
+}
+
+/**
+ * `IndexerStore` keeping the database in memory, and appending each committed batch to a JSON Lines file if `path` is set.
+ * JSON keeps the indexer free of native dependencies such as SQLite bindings, and appending keeps the cost
+ * of a commit proportional to its batch rather than to the whole history.
+ */
+export class JsonStore implements IndexerStore {
+  private readonly _db: JsonDatabase = { contracts: [], events: [] };
+
+  constructor(readonly path?: string) {
+    if (path && existsSync(path)) this._load(path);
+  }
+
+  async getCheckpoint(): Promise<number | undefined> {
+    return this._db.checkpoint;
+  }
+
+  async getContracts(): Promise<IndexedContract[]> {
+    return [...this._db.contracts];
+  }
+
+  async getEvents(filter: EventFilter = {}): Promise<IndexedEvent[]> {
+    return this._db.events.filter(
+      (event) =>
+        (filter.contract === undefined || event.contract === filter.contract) &&
+        (filter.datasetId === undefined || event.datasetId === filter.datasetId) &&
+        (filter.name === undefined || event.name === filter.name)
+    );
+  }
+
+  async commit(batch: IndexerBatch): Promise<void> {
+    // A batch is committed once its line is complete, see _load
+    if (this.path) appendFileSync(this.path, JSON.stringify(batch) + '\n');
+
+    this._apply(batch);
+  }
+
+  private _apply(batch: IndexerBatch): void {
+    this._db.contracts.push(...batch.contracts);
+    this._db.events.push(...batch.events);
+    this._db.checkpoint = batch.checkpoint;
+  }
+
+  // Replays the committed batches. An interrupted commit leaves an incomplete last line, which is dropped
+  // so that indexing resumes from the previous checkpoint and the next batch starts on a new line.
+  private _load(path: string): void {
+    const content = readFileSync(path, 'utf8');
+    const committed = content.slice(0, content.lastIndexOf('\n') + 1);
+
+    if (committed.length < content.length) truncateSync(path, Buffer.byteLength(committed));
+
+    for (const line of committed.split('\n')) {
+      if (line) this._apply(JSON.parse(line) as IndexerBatch);
+    }
+  }
+}
@@ -0,0 +1,3 @@
+export { Indexer } from './Indexer';
+export { JsonStore } from './JsonStore';
+export * from './types';
@@ -0,0 +1,59 @@
+export type ContractKind =
+  | 'DatasetNFT'
+  | 'FragmentNFT'
+  | 'SubscriptionManager'
+  | 'DistributionManager'
+  | 'VerifierManager';
+
+export interface IndexedContract {
+  address: string;
+  kind: ContractKind;
+  datasetId: string;
+  /** Block of the event the contract was discovered from */
+  fromBlock: number;
+}
+
+export type EventArg = string | boolean | EventArg[];
+
+export interface IndexedEvent {
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+  address: string;
+  contract: ContractKind;
+  datasetId?: string;
+  name: string;
+  /** Event arguments by name, with integers encoded as decimal strings */
+  args: Record<string, EventArg>;
+}
+
+export interface EventFilter {
+  contract?: ContractKind;
+  datasetId?: string;
+  name?: string;
+}
+
+export interface IndexerBatch {
+  events: IndexedEvent[];
+  contracts: IndexedContract[];
+  /** Last block covered by the batch */
+  checkpoint: number;
+}
+
+/**
+ * Persistence of the indexed events and discovered contracts.
+ * `commit()` must store a batch atomically, so that indexing can resume from the last checkpoint.
+ */
+export interface IndexerStore {
+  getCheckpoint(): Promise<number | undefined>;
+  getContracts(): Promise<IndexedContract[]>;
+  getEvents(filter?: EventFilter): Promise<IndexedEvent[]>;
+  commit(batch: IndexerBatch): Promise<void>;
+}
+
+export interface IndexerOptions {
+  /** Block to start from if nothing was indexed yet, defaults to 0 */
+  fromBlock?: number;
+  /** Maximum number of blocks queried per `eth_getLogs` request, defaults to 2000 */
+  batchSize?: number;
+}
@@ -0,0 +1,568 @@
+import {
+  AcceptManuallyVerifier__factory,
+  DatasetFactory__factory,
+  DatasetNFT,
+  DatasetNFT__factory,
+  DistributionManager__factory,
+  ERC20SubscriptionManager__factory,
+  FragmentNFT__factory,
+  IERC20__factory,
+  VerifierManager__factory,
+} from '../typechain-types';
+import {
+  AddressLike,
+  BigNumberish,
+  ContractRunner,
+  ContractTransactionResponse,
+  Signer,
+  TransactionReceipt,
+  ZeroAddress,
+  getBigInt,
+  isCallException,
+  resolveAddress,
+  toBigInt,
+} from 'ethers';
+import { encodeTag, getUuidHash } from '../utils/encoding';
+import { toNuklaiError } from './errors';
+import { findEvent, parseEvents } from './events';
+import {
+  AddConsumersParams,
+  ClaimPayoutsParams,
+  ClaimPayoutsResult,
+  ClaimType,
+  DatasetContracts,
+  ExtendSubscriptionParams,
+  GetSubscriptionParams,
+  MintDatasetParams,
+  MintDatasetResult,
+  PayoutPayment,
+  ProposeFragmentParams,
+  ProposeFragmentResult,
+  ProposeManyFragmentsParams,
+  ProposeManyFragmentsResult,
+  QuoteExtendSubscriptionParams,
+  RemoveConsumersParams,
+  ReplaceConsumersParams,
+  ResolveFragmentParams,
+  ResolveFragmentResult,
+  ResolveManyFragmentsParams,
+  ResolveManyFragmentsResult,
+  SubscribeParams,
+  SubscribeResult,
+  SubscriptionStatus,
+} from './types';
+
+const ONE_DAY = 86400n;
+
+/**
+ * High-level client for the Nuklai protocol.
+ * Resolves the Manager and FragmentNFT instances of each Dataset through the DatasetNFT contract,
+ * and decodes the custom errors of any reverted call into a `NuklaiError`.
+ */
+export class NuklaiClient {
+  readonly dataset: DatasetNFT;
+  readonly runner: ContractRunner;
+  private readonly _datasetContracts = new Map<bigint, DatasetContracts>();
+
+  constructor(datasetAddress: string, runner: ContractRunner) {
+    this.dataset = DatasetNFT__factory.connect(datasetAddress, runner);
+    this.runner = runner;
+  }
+
+  /**
+   * Returns a new client for the same DatasetNFT contract, using `runner` to send transactions
+   */
+  connect(runner: ContractRunner): NuklaiClient {
+    return new NuklaiClient(this.dataset.target as string, runner);
+  }
+
+  /**
+   * Retrieves the FragmentNFT and Manager instances deployed for a specific Dataset
+   */
+  async getDatasetContracts(datasetId: BigNumberish): Promise<DatasetContracts> {
+    const id = getBigInt(datasetId, 'datasetId');
+    const cached = this._datasetContracts.get(id);
+    if (cached) return cached;
+
+    const [fragmentNFT, subscriptionManager, distributionManager, verifierManager] =
+      await Promise.all([
+        this.dataset.fragmentNFT(id),
+        this.dataset.subscriptionManager(id),
+        this.dataset.distributionManager(id),
+        this.dataset.verifierManager(id),
+      ]);
+
+    if (fragmentNFT === ZeroAddress || subscriptionManager === ZeroAddress)
+      throw new Error(`Dataset ${id} is not configured`);
+
+    const contracts: DatasetContracts = {
+      fragmentNFT: FragmentNFT__factory.connect(fragmentNFT, this.runner),
+      subscriptionManager: ERC20SubscriptionManager__factory.connect(
+        subscriptionManager,
+        this.runner
+      ),
+      distributionManager: DistributionManager__factory.connect(distributionManager, this.runner),
+      verifierManager: VerifierManager__factory.connect(verifierManager, this.runner),
+    };
+
+    this._datasetContracts.set(id, contracts);
+
+    return contracts;
+  }
+
+  /**
+   * Mints and configures a Dataset in a single transaction through the DatasetFactory
+   */
+  async mintDataset(params: MintDatasetParams): Promise<MintDatasetResult> {
+    if (params.tags.length !== params.weights.length) throw new Error('args length mismatch');
+
+    const factory = DatasetFactory__factory.connect(
+      await this.dataset.datasetFactory(),
+      this.runner
+    );
+    const uuidHash = getUuidHash(params.uuid);
+
+    const receipt = await this._send(() =>
+      factory.mintAndConfigureDataset(
+        uuidHash,
+        params.owner,
+        params.signature,
+        params.defaultVerifier,
+        params.feeToken,
+        getBigInt(params.feePerConsumerPerDay, 'feePerConsumerPerDay'),
+        getBigInt(params.datasetOwnerPercentage, 'datasetOwnerPercentage'),
+        params.tags.map(encodeTag),
+        params.weights.map((weight) => getBigInt(weight, 'weights')),
+        params.extraFeePerPendingFragment ?? false
+      )
+    );
+
+    const managers = (await findEvent(receipt, this.dataset, 'ManagersConfigChange'))!;
+    const fragment = (await findEvent(receipt, this.dataset, 'FragmentInstanceDeployment'))!;
+
+    return {
+      datasetId: toBigInt(uuidHash),
+      fragmentNFT: fragment.args.instance,
+      subscriptionManager: managers.args.subscriptionManager,
+      distributionManager: managers.args.distributionManager,
+      verifierManager: managers.args.verifierManager,
+      receipt,
+    };
+  }
+
+  /**
+   * Proposes a contribution to a Dataset, paying the extra fee per pending Fragment if enabled
+   */
+  async proposeFragment(params: ProposeFragmentParams): Promise<ProposeFragmentResult> {
+    const datasetId = getBigInt(params.datasetId, 'datasetId');
+    const { fragmentNFT } = await this.getDatasetContracts(datasetId);
+
+    const receipt = await this._send(async () =>
+      this.dataset.proposeFragment(datasetId, params.to, encodeTag(params.tag), params.signature, {
+        value: await this._extraFeeFor(datasetId, 1n),
+      })
+    );
+
+    const pending = (await findEvent(receipt, fragmentNFT, 'FragmentPending'))!;
+
+    return { fragmentId: pending.args.id, receipt };
+  }
+
+  /**
+   * Proposes a batch of contributions to a Dataset, paying the extra fee per pending Fragment if enabled
+   */
+  async proposeManyFragments(
+    params: ProposeManyFragmentsParams
+  ): Promise<ProposeManyFragmentsResult> {
+    const datasetId = getBigInt(params.datasetId, 'datasetId');
+    const { fragmentNFT } = await this.getDatasetContracts(datasetId);
+    const owners = await Promise.all(params.owners.map((owner) => resolveAddress(owner)));
+
+    const receipt = await this._send(async () =>
+      this.dataset.proposeManyFragments(
+        datasetId,
+        owners,
+        params.tags.map(encodeTag),
+        params.signature,
+        { value: await this._extraFeeFor(datasetId, BigInt(params.tags.length)) }
+      )
+    );
+
+    const fragmentIds = (await parseEvents(receipt, fragmentNFT))
+      .filter((event) => event.name === 'FragmentPending')
+      .map((event) => event.args.id as bigint);
+
+    return { fragmentIds, receipt };
+  }
+
+  /**
+   * Subscribes to a Dataset, approving the subscription fee to the SubscriptionManager if needed.
+   * If `consumers` is an array of addresses, they are added as consumers of the new subscription.
+   */
+  async subscribe(params: SubscribeParams): Promise<SubscribeResult> {
+    const datasetId = getBigInt(params.datasetId, 'datasetId');
+    const durationInDays = getBigInt(params.durationInDays, 'durationInDays');
+    const consumers = Array.isArray(params.consumers)
+      ? await Promise.all(params.consumers.map((consumer) => resolveAddress(consumer)))
+      : undefined;
+    const consumersCount = consumers
+      ? BigInt(consumers.length)
+      : getBigInt(params.consumers as BigNumberish, 'consumers');
+
+    const { subscriptionManager } = await this.getDatasetContracts(datasetId);
+    const [, fee] = await subscriptionManager.subscriptionFee(
+      datasetId,
+      durationInDays,
+      consumersCount
+    );
+    const maxFee = params.maxFee !== undefined ? getBigInt(params.maxFee, 'maxFee') : fee;
+
+    await this._approve(await subscriptionManager.token(), subscriptionManager, maxFee);
+
+    const receipt = await this._send(() =>
+      consumers
+        ? subscriptionManager.subscribeAndAddConsumers(datasetId, durationInDays, consumers, maxFee)
+        : subscriptionManager.subscribe(datasetId, durationInDays, consumersCount, maxFee)
+    );
+
+    const paid = (await findEvent(receipt, subscriptionManager, 'SubscriptionPaid'))!;
+
+    return { subscriptionId: paid.args.id, fee, receipt };
+  }
+
+  /**
+   * Returns the extra fee for extending a subscription, mirroring `_extendSubscription()` of the SubscriptionManager
+   */
+  async quoteExtendSubscription(params: QuoteExtendSubscriptionParams): Promise<bigint> {
+    const datasetId = getBigInt(params.datasetId, 'datasetId');
+    const extraDurationInDays = getBigInt(params.extraDurationInDays, 'extraDurationInDays');
+    const extraConsumers = getBigInt(params.extraConsumers, 'extraConsumers');
+
+    const { subscriptionManager } = await this.getDatasetContracts(datasetId);
+    const { validSince, validTill, paidConsumers, active } = await this.getSubscription(params);
+
+    let currentFee = 0n;
+    let newDurationInDays = extraDurationInDays;
+    if (active) {
+      const currentDurationInDays = (validTill - validSince) / ONE_DAY;
+      [, currentFee] = await subscriptionManager.subscriptionFee(
+        datasetId,
+        currentDurationInDays,
+        paidConsumers
+      );
+      newDurationInDays += currentDurationInDays;
+    }
+
+    const [, newFee] = await subscriptionManager.subscriptionFee(
+      datasetId,
+      newDurationInDays,
+      paidConsumers + extraConsumers
+    );
+
+    return newFee > currentFee ? newFee - currentFee : 0n;
+  }
+
+  /**
+   * Extends a subscription duration-wise and/or consumer-wise, approving up to `maxExtraFee`.
+   * If `extraConsumers` is an array of addresses, they are added as consumers of the subscription.
+   */
+  async extendSubscription(params: ExtendSubscriptionParams): Promise<TransactionReceipt> {
+    const { subscriptionManager } = await this.getDatasetContracts(params.datasetId);
+    const subscriptionId = getBigInt(params.subscriptionId, 'subscriptionId');
+    const extraDurationInDays = getBigInt(params.extraDurationInDays, 'extraDurationInDays');
+    const extraConsumers = Array.isArray(params.extraConsumers)
+      ? await Promise.all(params.extraConsumers.map((consumer) => resolveAddress(consumer)))
+      : undefined;
+    const extraConsumersCount = extraConsumers
+      ? BigInt(extraConsumers.length)
+      : getBigInt(params.extraConsumers as BigNumberish, 'extraConsumers');
+
+    const maxExtraFee =
+      params.maxExtraFee !== undefined
+        ? getBigInt(params.maxExtraFee, 'maxExtraFee')
+        : await this.quoteExtendSubscription({
+            datasetId: params.datasetId,
+            subscriptionId,
+            extraDurationInDays,
+            extraConsumers: extraConsumersCount,
+          });
+
+    await this._approve(await subscriptionManager.token(), subscriptionManager, maxExtraFee);
+
+    return this._send(() =>
+      extraConsumers
+        ? subscriptionManager.extendSubscriptionAndAddExtraConsumers(
+            subscriptionId,
+            extraDurationInDays,
+            extraConsumers,
+            maxExtraFee
+          )
+        : subscriptionManager.extendSubscription(
+            subscriptionId,
+            extraDurationInDays,
+            extraConsumersCount,
+            maxExtraFee
+          )
+    );
+  }
+
+  /**
+   * Adds consumers to an existing subscription
+   */
+  async addConsumers(params: AddConsumersParams): Promise<TransactionReceipt> {
+    const { subscriptionManager } = await this.getDatasetContracts(params.datasetId);
+
+    return this._send(() =>
+      subscriptionManager.addConsumers(
+        getBigInt(params.subscriptionId, 'subscriptionId'),
+        params.consumers
+      )
+    );
+  }
+
+  /**
+   * Removes consumers from an existing subscription, without refund of their paid count
+   */
+  async removeConsumers(params: RemoveConsumersParams): Promise<TransactionReceipt> {
+    const { subscriptionManager } = await this.getDatasetContracts(params.datasetId);
+
+    return this._send(() =>
+      subscriptionManager.removeConsumers(
+        getBigInt(params.subscriptionId, 'subscriptionId'),
+        params.consumers
+      )
+    );
+  }
+
+  /**
+   * Replaces consumers of an existing subscription with the same count of new consumers
+   */
+  async replaceConsumers(params: ReplaceConsumersParams): Promise<TransactionReceipt> {
+    const { subscriptionManager } = await this.getDatasetContracts(params.datasetId);
+
+    return this._send(() =>
+      subscriptionManager.replaceConsumers(
+        getBigInt(params.subscriptionId, 'subscriptionId'),
+        params.oldConsumers,
+        params.newConsumers
+      )
+    );
+  }
+
+  /**
+   * Returns the validity window and consumers of a subscription.
+   * The SubscriptionManager does not expose them, so they are read from its events since `fromBlock`.
+   */
+  async getSubscription(params: GetSubscriptionParams): Promise<SubscriptionStatus> {
+    const subscriptionId = getBigInt(params.subscriptionId, 'subscriptionId');
+    const { subscriptionManager } = await this.getDatasetContracts(params.datasetId);
+    const fromBlock = params.fromBlock ?? 0;
+
+    const owner = await subscriptionManager.ownerOf(subscriptionId);
+
+    const paid = await subscriptionManager.queryFilter(
+      subscriptionManager.filters.SubscriptionPaid(subscriptionId),
+      fromBlock
+    );
+    if (paid.length === 0)
+      throw new Error(
+        `No SubscriptionPaid event for subscription ${subscriptionId} since block ${fromBlock}`
+      );
+    const { validSince, validTill, paidConsumers } = paid[paid.length - 1].args;
+
+    const consumerEvents = [
+      ...(await subscriptionManager.queryFilter(
+        subscriptionManager.filters.ConsumerAdded(subscriptionId),
+        fromBlock
+      )),
+      ...(await subscriptionManager.queryFilter(
+        subscriptionManager.filters.ConsumerRemoved(subscriptionId),
+        fromBlock
+      )),
+    ].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+    const consumers = new Set<string>();
+    for (const event of consumerEvents) {
+      if (event.eventName === 'ConsumerAdded') consumers.add(event.args.consumer);
+      else consumers.delete(event.args.consumer);
+    }
+
+    const latest = await this.runner.provider!.getBlock('latest');
+
+    return {
+      subscriptionId,
+      owner,
+      validSince,
+      validTill,
+      paidConsumers,
+      consumers: [...consumers],
+      active: validTill > BigInt(latest!.timestamp),
+    };
+  }
+
+  /**
+   * Returns the payments distributed to contributors by the DistributionManager of a Dataset.
+   * `payments` has no length getter, so they are read until the call reverts out of bounds.
+   */
+  async getPayments(datasetId: BigNumberish): Promise<PayoutPayment[]> {
+    const { distributionManager } = await this.getDatasetContracts(datasetId);
+    const payments: PayoutPayment[] = [];
+
+    for (;;) {
+      const payment = await distributionManager.payments(payments.length).catch((error) => {
+        // Hardhat's in-process network throws its own errors, with empty revert data
+        if (isCallException(error) || error?.data === '0x') return undefined;
+        throw error;
+      });
+      if (!payment) return payments;
+
+      payments.push({
+        token: payment.token,
+        distributionAmount: payment.distributionAmount,
+        snapshotId: payment.snapshotId,
+        tagWeightsVersion: payment.tagWeightsVersion,
+      });
+    }
+  }
+
+  /**
+   * Claims the sender's revenue from a Dataset and returns the payouts sent
+   */
+  async claimPayouts(params: ClaimPayoutsParams): Promise<ClaimPayoutsResult> {
+    const { distributionManager } = await this.getDatasetContracts(params.datasetId);
+    const sigValidSince = getBigInt(params.sigValidSince, 'sigValidSince');
+    const sigValidTill = getBigInt(params.sigValidTill, 'sigValidTill');
+    const nonce =
+      params.nonce !== undefined
+        ? getBigInt(params.nonce, 'nonce')
+        : await distributionManager.claimNonces(await (this.runner as Signer).getAddress());
+
+    const receipt = await this._send(() => {
+      switch (params.claimType ?? ClaimType.CONTRIBUTOR) {
+        case ClaimType.DATASET_OWNER:
+          return distributionManager.claimDatasetOwnerPayouts(
+            sigValidSince,
+            sigValidTill,
+            nonce,
+            params.signature
+          );
+        case ClaimType.DATASET_OWNER_AND_CONTRIBUTOR:
+          return distributionManager.claimDatasetOwnerAndFragmentPayouts(
+            sigValidSince,
+            sigValidTill,
+            nonce,
+            params.signature
+          );
+        default:
+          return distributionManager.claimPayouts(
+            sigValidSince,
+            sigValidTill,
+            nonce,
+            params.signature
+          );
+      }
+    });
+
+    const payouts = (await parseEvents(receipt, distributionManager))
+      .filter((event) => event.name === 'PayoutSent')
+      .map((event) => ({
+        to: event.args.to as string,
+        token: event.args.token as string,
+        amount: event.args.amount as bigint,
+      }));
+
+    return { payouts, receipt };
+  }
+
+  /**
+   * Accepts or rejects a pending Fragment through the AcceptManuallyVerifier configured for its tag
+   */
+  async resolveFragment(params: ResolveFragmentParams): Promise<ResolveFragmentResult> {
+    const fragmentId = getBigInt(params.fragmentId, 'fragmentId');
+    const { fragmentNFT, verifierManager } = await this.getDatasetContracts(params.datasetId);
+
+    const tag = await fragmentNFT.tags(fragmentId);
+    let verifierAddress = await verifierManager.verifiers(tag);
+    if (verifierAddress === ZeroAddress) verifierAddress = await verifierManager.defaultVerifier();
+
+    const verifier = AcceptManuallyVerifier__factory.connect(verifierAddress, this.runner);
+
+    const receipt = await this._send(async () =>
+      verifier.resolve(await fragmentNFT.getAddress(), fragmentId, params.accept)
+    );
+
+    return { verifier, receipt };
+  }
+
+  /**
+   * Accepts or rejects a batch of pending Fragments of a Dataset, with a `resolveMany()` call
+   * to each AcceptManuallyVerifier in charge of some of them
+   */
+  async resolveManyFragments(
+    params: ResolveManyFragmentsParams
+  ): Promise<ResolveManyFragmentsResult> {
+    const { fragmentNFT, verifierManager } = await this.getDatasetContracts(params.datasetId);
+    const defaultVerifier = await verifierManager.defaultVerifier();
+
+    const idsByVerifier = new Map<string, bigint[]>();
+    for (const id of params.fragmentIds) {
+      const fragmentId = getBigInt(id, 'fragmentId');
+      let verifierAddress = await verifierManager.verifiers(await fragmentNFT.tags(fragmentId));
+      if (verifierAddress === ZeroAddress) verifierAddress = defaultVerifier;
+
+      idsByVerifier.set(verifierAddress, [
+        ...(idsByVerifier.get(verifierAddress) ?? []),
+        fragmentId,
+      ]);
+    }
+
+    const receipts = new Map<string, TransactionReceipt>();
+    for (const [verifierAddress, fragmentIds] of idsByVerifier) {
+      const verifier = AcceptManuallyVerifier__factory.connect(verifierAddress, this.runner);
+
+      receipts.set(
+        verifierAddress,
+        await this._send(async () =>
+          verifier.resolveMany(await fragmentNFT.getAddress(), fragmentIds, params.accept)
+        )
+      );
+    }
+
+    return { receipts };
+  }
+
+  /**
+   * Returns the extra fee to pay for proposing `count` Fragments to a Dataset
+   */
+  private async _extraFeeFor(datasetId: bigint, count: bigint): Promise<bigint> {
+    if (!(await this.dataset.datasetIdToPendingFragmentExtraFeeEnabled(datasetId))) return 0n;
+    return (await this.dataset.extraFeePerPendingFragment()) * count;
+  }
+
+  /**
+   * Approves `amount` of `token` to `spender` if the current allowance is not enough
+   */
+  private async _approve(token: string, spender: AddressLike, amount: bigint): Promise<void> {
+    const erc20 = IERC20__factory.connect(token, this.runner);
+    const owner = await (this.runner as Signer).getAddress();
+    const spenderAddress = await resolveAddress(spender);
+
+    if ((await erc20.allowance(owner, spenderAddress)) >= amount) return;
+
+    await this._send(() => erc20.approve(spenderAddress, amount));
+  }
+
+  /**
+   * Sends a transaction and waits for its receipt, decoding custom errors of reverted calls
+   */
+  private async _send(
+    send: () => Promise<ContractTransactionResponse>
+  ): Promise<TransactionReceipt> {
+    try {
+      const response = await send();
+      return (await response.wait())!;
+    } catch (error) {
+      throw toNuklaiError(error);
+    }
+  }
+}
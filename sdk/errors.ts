@@ -0,0 +1,170 @@
+import {
+  AcceptManuallyVerifier__factory,
+  DatasetFactory__factory,
+  DatasetNFT__factory,
+  DistributionManager__factory,
+  ERC20SubscriptionManager__factory,
+  FragmentNFT__factory,
+  GenericSingleDatasetSubscriptionManager__factory,
+  VerifierManager__factory,
+} from '../typechain-types';
+import {
+  ErrorDescription,
+  ErrorFragment,
+  Interface,
+  ParamType,
+  Result,
+  getAddress,
+  isHexString,
+} from 'ethers';
+
+const interfaces: Record<string, Interface> = {
+  DatasetNFT: DatasetNFT__factory.createInterface(),
+  DatasetFactory: DatasetFactory__factory.createInterface(),
+  FragmentNFT: FragmentNFT__factory.createInterface(),
+  DistributionManager: DistributionManager__factory.createInterface(),
+  GenericSingleDatasetSubscriptionManager:
+    GenericSingleDatasetSubscriptionManager__factory.createInterface(),
+  ERC20SubscriptionManager: ERC20SubscriptionManager__factory.createInterface(),
+  VerifierManager: VerifierManager__factory.createInterface(),
+  AcceptManuallyVerifier: AcceptManuallyVerifier__factory.createInterface(),
+};
+
+interface ErrorEntry {
+  fragment: ErrorFragment;
+  iface: Interface;
+  contracts: string[];
+}
+
+// Custom errors of all the Nuklai contracts by selector, listing every contract declaring each of them
+const errorTable = new Map<string, ErrorEntry>();
+
+for (const [contract, iface] of Object.entries(interfaces)) {
+  iface.forEachError((fragment) => {
+    const entry = errorTable.get(fragment.selector);
+    if (entry) entry.contracts.push(contract);
+    else errorTable.set(fragment.selector, { fragment, iface, contracts: [contract] });
+  });
+}
+
+// Resolves the builtin `Error(string)` and `Panic(uint256)` errors
+const builtinInterface = new Interface([]);
+
+export interface DecodedNuklaiError {
+  name: string;
+  signature: string;
+  /** Contracts declaring the error, empty for the builtin `Error(string)` and `Panic(uint256)` */
+  contracts: string[];
+  args: Result;
+  /** Human-readable error, e.g. `BAD_SIGNATURE(msgHash: 0x.., recoveredSigner: 0x..)` */
+  message: string;
+}
+
+const formatArg = (param: ParamType, value: unknown): string => {
+  if (param.isArray()) {
+    return `[${(value as unknown[])
+      .map((item) => formatArg(param.arrayChildren, item))
+      .join(', ')}]`;
+  }
+  if (param.isTuple()) {
+    return `(${param.components.map((c, i) => formatArg(c, (value as Result)[i])).join(', ')})`;
+  }
+  if (param.type === 'address') return getAddress(value as string);
+  return String(value);
+};
+
+/**
+ * Error thrown by `NuklaiClient` when a call reverts with a custom error of the Nuklai contracts
+ */
+export class NuklaiError extends Error {
+  readonly errorName: string;
+  readonly contracts: string[];
+  readonly args: Result;
+  readonly data: string;
+  readonly originalError: unknown;
+
+  constructor(decoded: DecodedNuklaiError, data: string, originalError?: unknown) {
+    super(decoded.message);
+    this.name = 'NuklaiError';
+    this.errorName = decoded.name;
+    this.contracts = decoded.contracts;
+    this.args = decoded.args;
+    this.data = data;
+    this.originalError = originalError;
+  }
+}
+
+/**
+ * Searches a provider error (and the errors it wraps) for the revert data
+ */
+export function getRevertData(error: unknown): string | undefined {
+  if (typeof error !== 'object' || error === null) return;
+
+  const { data, error: inner, info } = error as Record<string, unknown>;
+
+  if (isHexString(data) && data.length >= 10) return data;
+  if (typeof data === 'object') return getRevertData(data);
+
+  return getRevertData(inner) ?? getRevertData((info as Record<string, unknown>)?.error);
+}
+
+/**
+ * Decodes revert data against the custom errors of all the Nuklai contracts.
+ * Returns null if the error is unknown or its arguments are malformed.
+ */
+export function decodeRevertData(data: string): ErrorDescription | null {
+  const entry = errorTable.get(data.slice(0, 10).toLowerCase());
+
+  try {
+    return (entry?.iface ?? builtinInterface).parseError(data);
+  } catch {
+    // The selector matches but the arguments cannot be decoded, e.g. truncated revert data
+    return null;
+  }
+}
+
+/**
+ * Decodes the custom error of a reverted call, given either its revert data or the thrown error.
+ * Returns undefined if no revert data is found or the error is unknown.
+ */
+export function decodeNuklaiError(errorOrData: unknown): DecodedNuklaiError | undefined {
+  const data =
+    typeof errorOrData === 'string' && isHexString(errorOrData)
+      ? errorOrData
+      : getRevertData(errorOrData);
+  if (!data) return;
+
+  const description = decodeRevertData(data);
+  if (!description) return;
+
+  const contracts = errorTable.get(description.selector)?.contracts ?? [];
+  const args = description.fragment.inputs
+    .map((param, i) => {
+      const value = formatArg(param, description.args[i]);
+      return param.name ? `${param.name}: ${value}` : value;
+    })
+    .join(', ');
+
+  return {
+    name: description.name,
+    signature: description.signature,
+    contracts,
+    args: description.args,
+    message: `${description.name}(${args})`,
+  };
+}
+
+/**
+ * Converts `error` to a `NuklaiError` if it carries a known custom error, otherwise returns it as is
+ */
+export function toNuklaiError(error: unknown): unknown {
+  if (error instanceof NuklaiError) return error;
+
+  const data = getRevertData(error);
+  if (!data) return error;
+
+  const decoded = decodeNuklaiError(data);
+  if (!decoded) return error;
+
+  return new NuklaiError(decoded, data, error);
+}
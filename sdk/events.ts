@@ -0,0 +1,37 @@
+import { BaseContract, Log, LogDescription, TransactionReceipt } from 'ethers';
+
+/**
+ * Decodes the logs of `receipt` emitted by `contract`, skipping logs of any other address
+ */
+export async function parseEvents(
+  receipt: TransactionReceipt,
+  contract: BaseContract
+): Promise<LogDescription[]> {
+  const address = (await contract.getAddress()).toLowerCase();
+  const events: LogDescription[] = [];
+
+  for (const log of receipt.logs as Log[]) {
+    if (log.address.toLowerCase() !== address) continue;
+
+    const event = contract.interface.parseLog({
+      topics: log.topics as string[],
+      data: log.data,
+    });
+
+    if (event) events.push(event);
+  }
+
+  return events;
+}
+
+/**
+ * Returns the first `eventName` event emitted by `contract` in `receipt`, or undefined if not found
+ */
+export async function findEvent(
+  receipt: TransactionReceipt,
+  contract: BaseContract,
+  eventName: string
+): Promise<LogDescription | undefined> {
+  const events = await parseEvents(receipt, contract);
+  return events.find((event) => event.name === eventName);
+}
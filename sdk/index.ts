@@ -0,0 +1,21 @@
+export { NuklaiClient } from './NuklaiClient';
+export {
+  DecodedNuklaiError,
+  NuklaiError,
+  decodeNuklaiError,
+  decodeRevertData,
+  getRevertData,
+  toNuklaiError,
+} from './errors';
+export { findEvent, parseEvents } from './events';
+export {
+  BASE_100_PERCENT,
+  accountTagPercentages,
+  calculateContributorPayouts,
+  calculateOwnerPayouts,
+  calculatePaymentPayout,
+  calculatePayoutByToken,
+  calculateTagPayout,
+  splitPayment,
+} from './payouts';
+export * from './types';
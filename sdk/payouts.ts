@@ -0,0 +1,125 @@
+import { FragmentSnapshot, PaymentSplit, PayoutPayment, PayoutState, TagAmounts } from './types';
+
+export const BASE_100_PERCENT = 10n ** 18n;
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+function lookup<T>(record: Record<string, T> | undefined, key: string): T | undefined {
+  if (!record) return undefined;
+  if (key in record) return record[key];
+
+  const entry = Object.entries(record).find(([k]) => sameAddress(k, key));
+  return entry?.[1];
+}
+
+/**
+ * Splits a subscription payment into deployer fee, Dataset owner fee and the amount distributed
+ * to contributors, as done by `DistributionManager.receivePayment()`
+ */
+export function splitPayment(
+  amount: bigint,
+  deployerFeePercentage: bigint,
+  datasetOwnerPercentage: bigint
+): PaymentSplit {
+  const deployerFee = (amount * deployerFeePercentage) / BASE_100_PERCENT;
+  const ownerFee = ((amount - deployerFee) * datasetOwnerPercentage) / BASE_100_PERCENT;
+
+  return { deployerFee, ownerFee, distributionAmount: amount - deployerFee - ownerFee };
+}
+
+/**
+ * Returns the percentages of `tags` contributed by `account` in `snapshot` (100% = 1e18),
+ * as done by `FragmentNFT.accountTagPercentageAt()`
+ */
+export function accountTagPercentages(
+  snapshot: FragmentSnapshot,
+  account: string,
+  tags: string[]
+): bigint[] {
+  const accountTagCount = lookup(snapshot.accountTagCount, account) ?? {};
+
+  return tags.map((tag) => {
+    const totalCount = snapshot.totalTagCount[tag] ?? 0n;
+    if (totalCount === 0n) return 0n;
+    return (BASE_100_PERCENT * (accountTagCount[tag] ?? 0n)) / totalCount;
+  });
+}
+
+/**
+ * Returns the payout of a single tag, rounded down as in `DistributionManager._calculatePayout()`
+ */
+export function calculateTagPayout(
+  distributionAmount: bigint,
+  weight: bigint,
+  percentage: bigint
+): bigint {
+  return (distributionAmount * weight * percentage) / BASE_100_PERCENT ** 2n;
+}
+
+/**
+ * Returns the contribution-based payout of `account` for a single payment
+ */
+export function calculatePaymentPayout(
+  state: PayoutState,
+  payment: PayoutPayment,
+  account: string
+): bigint {
+  const tagWeights: TagAmounts | undefined = state.tagWeights[Number(payment.tagWeightsVersion)];
+  if (!tagWeights) throw new Error(`Missing tag weights version ${payment.tagWeightsVersion}`);
+
+  const snapshot = state.snapshots[payment.snapshotId.toString()];
+  if (!snapshot) throw new Error(`Missing FragmentNFT snapshot ${payment.snapshotId}`);
+
+  const tags = Object.keys(tagWeights);
+  const percentages = accountTagPercentages(snapshot, account, tags);
+
+  return tags.reduce(
+    (payout, tag, i) =>
+      payout + calculateTagPayout(payment.distributionAmount, tagWeights[tag], percentages[i]),
+    0n
+  );
+}
+
+/**
+ * Returns the unclaimed contribution-based payout of `account` for `token`,
+ * as done by `DistributionManager.calculatePayoutByToken()`
+ */
+export function calculatePayoutByToken(state: PayoutState, token: string, account: string): bigint {
+  return calculateContributorPayouts(state, account)[token.toLowerCase()] ?? 0n;
+}
+
+/**
+ * Returns the unclaimed contribution-based payouts of `account`, keyed by lowercase token address
+ */
+export function calculateContributorPayouts(
+  state: PayoutState,
+  account: string
+): Record<string, bigint> {
+  const firstUnclaimed = Number(lookup(state.firstUnclaimedContribution, account) ?? 0n);
+  const payouts: Record<string, bigint> = {};
+
+  for (const payment of state.payments.slice(firstUnclaimed)) {
+    const token = payment.token.toLowerCase();
+    payouts[token] = (payouts[token] ?? 0n) + calculatePaymentPayout(state, payment, account);
+  }
+
+  return payouts;
+}
+
+/**
+ * Returns the unclaimed Dataset ownership fees, keyed by lowercase token address,
+ * as sent by `DistributionManager.claimDatasetOwnerPayouts()`
+ */
+export function calculateOwnerPayouts(state: PayoutState): Record<string, bigint> {
+  const payouts: Record<string, bigint> = {};
+
+  for (const payment of state.payments.slice(Number(state.firstUnclaimed ?? 0n))) {
+    const token = payment.token.toLowerCase();
+    if (token in payouts) continue;
+
+    const pendingFee = lookup(state.pendingOwnerFee, token) ?? 0n;
+    if (pendingFee > 0n) payouts[token] = pendingFee;
+  }
+
+  return payouts;
+}
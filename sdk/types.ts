@@ -0,0 +1,210 @@
+import {
+  AcceptManuallyVerifier,
+  DistributionManager,
+  ERC20SubscriptionManager,
+  FragmentNFT,
+  VerifierManager,
+} from '../typechain-types';
+import { AddressLike, BigNumberish, BytesLike, TransactionReceipt } from 'ethers';
+
+export interface DatasetContracts {
+  fragmentNFT: FragmentNFT;
+  subscriptionManager: ERC20SubscriptionManager;
+  distributionManager: DistributionManager;
+  verifierManager: VerifierManager;
+}
+
+export interface MintDatasetParams {
+  uuid: string;
+  owner: AddressLike;
+  signature: BytesLike;
+  defaultVerifier: AddressLike;
+  feeToken: AddressLike;
+  feePerConsumerPerDay: BigNumberish;
+  datasetOwnerPercentage: BigNumberish;
+  tags: string[];
+  weights: BigNumberish[];
+  extraFeePerPendingFragment?: boolean;
+}
+
+export interface MintDatasetResult {
+  datasetId: bigint;
+  fragmentNFT: string;
+  subscriptionManager: string;
+  distributionManager: string;
+  verifierManager: string;
+  receipt: TransactionReceipt;
+}
+
+export interface ProposeFragmentParams {
+  datasetId: BigNumberish;
+  to: AddressLike;
+  tag: string;
+  signature: BytesLike;
+}
+
+export interface ProposeFragmentResult {
+  fragmentId: bigint;
+  receipt: TransactionReceipt;
+}
+
+export interface ProposeManyFragmentsParams {
+  datasetId: BigNumberish;
+  owners: AddressLike[];
+  tags: string[];
+  signature: BytesLike;
+}
+
+export interface ProposeManyFragmentsResult {
+  /** Pending Fragment IDs, in the order of `owners` */
+  fragmentIds: bigint[];
+  receipt: TransactionReceipt;
+}
+
+export interface SubscribeParams {
+  datasetId: BigNumberish;
+  durationInDays: BigNumberish;
+  consumers: BigNumberish | AddressLike[];
+  maxFee?: BigNumberish;
+}
+
+export interface SubscribeResult {
+  subscriptionId: bigint;
+  fee: bigint;
+  receipt: TransactionReceipt;
+}
+
+export interface QuoteExtendSubscriptionParams {
+  datasetId: BigNumberish;
+  subscriptionId: BigNumberish;
+  extraDurationInDays: BigNumberish;
+  extraConsumers: BigNumberish;
+}
+
+export interface ExtendSubscriptionParams {
+  datasetId: BigNumberish;
+  subscriptionId: BigNumberish;
+  extraDurationInDays: BigNumberish;
+  /** Count of extra consumers, or the addresses of the extra consumers to add */
+  extraConsumers: BigNumberish | AddressLike[];
+  /** Defaults to the fee quoted by `quoteExtendSubscription()` */
+  maxExtraFee?: BigNumberish;
+}
+
+export interface AddConsumersParams {
+  datasetId: BigNumberish;
+  subscriptionId: BigNumberish;
+  consumers: AddressLike[];
+}
+
+export type RemoveConsumersParams = AddConsumersParams;
+
+export interface ReplaceConsumersParams {
+  datasetId: BigNumberish;
+  subscriptionId: BigNumberish;
+  oldConsumers: AddressLike[];
+  newConsumers: AddressLike[];
+}
+
+export interface GetSubscriptionParams {
+  datasetId: BigNumberish;
+  subscriptionId: BigNumberish;
+  /** Block to look up the subscription events from, defaults to 0 */
+  fromBlock?: number;
+}
+
+export interface SubscriptionStatus {
+  subscriptionId: bigint;
+  owner: string;
+  validSince: bigint;
+  validTill: bigint;
+  paidConsumers: bigint;
+  consumers: string[];
+  /** Whether `validTill` is after the timestamp of the latest block */
+  active: boolean;
+}
+
+export enum ClaimType {
+  CONTRIBUTOR,
+  DATASET_OWNER,
+  DATASET_OWNER_AND_CONTRIBUTOR,
+}
+
+export interface ClaimPayoutsParams {
+  datasetId: BigNumberish;
+  sigValidSince: BigNumberish;
+  sigValidTill: BigNumberish;
+  /** Defaults to the sender's current `claimNonces` value */
+  nonce?: BigNumberish;
+  signature: BytesLike;
+  claimType?: ClaimType;
+}
+
+export interface Payout {
+  to: string;
+  token: string;
+  amount: bigint;
+}
+
+export interface ClaimPayoutsResult {
+  payouts: Payout[];
+  receipt: TransactionReceipt;
+}
+
+export interface ResolveFragmentParams {
+  datasetId: BigNumberish;
+  fragmentId: BigNumberish;
+  accept: boolean;
+}
+
+export interface ResolveFragmentResult {
+  verifier: AcceptManuallyVerifier;
+  receipt: TransactionReceipt;
+}
+
+export interface ResolveManyFragmentsParams {
+  datasetId: BigNumberish;
+  fragmentIds: BigNumberish[];
+  accept: boolean;
+}
+
+export interface ResolveManyFragmentsResult {
+  /** Receipt of the `resolveMany()` call of each verifier, by verifier address */
+  receipts: Map<string, TransactionReceipt>;
+}
+
+export interface PayoutPayment {
+  token: string;
+  distributionAmount: bigint;
+  snapshotId: bigint;
+  tagWeightsVersion: bigint;
+}
+
+/** Amounts keyed by encoded tag */
+export type TagAmounts = Record<string, bigint>;
+
+export interface FragmentSnapshot {
+  totalTagCount: TagAmounts;
+  accountTagCount: Record<string, TagAmounts>;
+}
+
+export interface PayoutState {
+  /** `DistributionManager.payments` */
+  payments: PayoutPayment[];
+  /** Tag weights of the DistributionManager, indexed by version */
+  tagWeights: TagAmounts[];
+  /** FragmentNFT tag counts, keyed by snapshot id */
+  snapshots: Record<string, FragmentSnapshot>;
+  /** `DistributionManager.pendingOwnerFee`, keyed by token */
+  pendingOwnerFee?: Record<string, bigint>;
+  /** Index of the first payment not claimed by the Dataset owner, defaults to 0 */
+  firstUnclaimed?: bigint;
+  /** Index of the first payment not claimed by each contributor, defaults to 0 */
+  firstUnclaimedContribution?: Record<string, bigint>;
+}
+
+export interface PaymentSplit {
+  deployerFee: bigint;
+  ownerFee: bigint;
+  distributionAmount: bigint;
+}
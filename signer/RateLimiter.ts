@@ -0,0 +1,55 @@
+import { RateLimitPolicy } from './types';
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Fixed-window rate limiter keyed by requester
+ */
+export class RateLimiter {
+  private readonly _windows = new Map<string, Window>();
+  private _nextSweepAt = 0;
+
+  constructor(readonly policy: RateLimitPolicy, private readonly _now: () => number = Date.now) {}
+
+  /**
+   * Number of requesters currently tracked, including the ones whose window expired since the last sweep
+   */
+  get size(): number {
+    return this._windows.size;
+  }
+
+  /**
+   * Records a request of `key`, returning false if it exceeds the allowed requests of the current window
+   */
+  consume(key: string): boolean {
+    const now = this._now();
+    this._sweep(now);
+
+    let window = this._windows.get(key);
+
+    if (!window || now >= window.resetAt) {
+      window = { count: 0, resetAt: now + this.policy.windowSeconds * 1000 };
+      this._windows.set(key, window);
+    }
+
+    if (window.count >= this.policy.maxRequests) return false;
+
+    window.count++;
+
+    return true;
+  }
+
+  // Forgets the requesters whose window expired, at most once per window so that consume stays cheap
+  private _sweep(now: number): void {
+    if (now < this._nextSweepAt) return;
+
+    for (const [key, window] of this._windows) {
+      if (now >= window.resetAt) this._windows.delete(key);
+    }
+
+    this._nextSweepAt = now + this.policy.windowSeconds * 1000;
+  }
+}
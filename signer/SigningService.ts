@@ -0,0 +1,316 @@
+import { Signer, getAddress, getBigInt, isAddress } from 'ethers';
+import { NuklaiClient } from '../sdk/NuklaiClient';
+import { DatasetContracts } from '../sdk/types';
+import { encodeTag, getUuidHash } from '../utils/encoding';
+import * as signature from '../utils/signature';
+import { PolicyViolationError, RateLimitError, SigningError } from './errors';
+import { RateLimiter } from './RateLimiter';
+import {
+  ClaimSignatureRequest,
+  ClaimSignatureResponse,
+  MintSignatureRequest,
+  MintSignatureResponse,
+  ProposeManySignatureRequest,
+  ProposeManySignatureResponse,
+  ProposeSignatureRequest,
+  ProposeSignatureResponse,
+  SignatureKind,
+  SignatureLogEntry,
+  SigningPolicy,
+} from './types';
+
+/**
+ * Issues the DT service signatures verified by the DatasetNFT, FragmentNFT and DistributionManager contracts,
+ * after checking each request against a `SigningPolicy`. Every issued signature is passed to `logger`.
+ */
+export class SigningService {
+  readonly client: NuklaiClient;
+  private readonly _rateLimiter?: RateLimiter;
+  private readonly _allowedOwners?: Set<string>;
+  private _chainId?: bigint;
+
+  constructor(
+    datasetAddress: string,
+    readonly signer: Signer,
+    readonly policy: SigningPolicy = {},
+    private readonly _logger: (entry: SignatureLogEntry) => void = (entry) =>
+      console.log(JSON.stringify(entry))
+  ) {
+    this.client = new NuklaiClient(datasetAddress, signer);
+    if (policy.rateLimit) this._rateLimiter = new RateLimiter(policy.rateLimit);
+    if (policy.allowedOwners)
+      this._allowedOwners = new Set(policy.allowedOwners.map((owner) => getAddress(owner)));
+  }
+
+  /**
+   * Checks that the signer holds the SIGNER_ROLE in the DatasetNFT contract
+   */
+  async assertSigner(): Promise<void> {
+    const address = await this.signer.getAddress();
+    if (!(await this.client.dataset.isSigner(address)))
+      throw new Error(`${address} has no SIGNER_ROLE`);
+  }
+
+  /**
+   * Signs the minting of the Dataset identified by `uuid` to `owner`
+   */
+  async signMint(
+    request: MintSignatureRequest,
+    requester?: string
+  ): Promise<MintSignatureResponse> {
+    this._consume(requester);
+
+    if (typeof request.uuid !== 'string' || request.uuid === '')
+      throw new SigningError('uuid is required');
+    const owner = this._address(request.owner, 'owner');
+
+    if (this._allowedOwners && !this._allowedOwners.has(owner))
+      throw new PolicyViolationError(`Owner ${owner} is not allowed`);
+
+    const uuidHash = getUuidHash(request.uuid);
+    const chainId = await this._getChainId();
+    const datasetAddress = this.client.dataset.target as string;
+    const message = (await this._eip712())
+      ? signature.getDatasetMintTypedData(chainId, datasetAddress, uuidHash, owner)
+      : signature.getDatasetMintMessage(chainId, datasetAddress, uuidHash, owner);
+
+    return {
+      signature: await this._sign('mint', message, request, requester),
+      uuidHash,
+    };
+  }
+
+  /**
+   * Signs the proposal of a Fragment tagged `tag` to `to`.
+   * The signature is bound to the next pending Fragment ID, so it is invalidated by any other proposal to the Dataset.
+   */
+  async signPropose(
+    request: ProposeSignatureRequest,
+    requester?: string
+  ): Promise<ProposeSignatureResponse> {
+    this._consume(requester);
+
+    const datasetId = this._datasetId(request.datasetId);
+    const to = this._address(request.to, 'to');
+    this._assertTags(datasetId, [request.tag]);
+
+    const { fragmentNFT } = await this._getDatasetContracts(datasetId);
+    const fragmentId = (await fragmentNFT.lastFragmentPendingId()) + 1n;
+    const encodedTag = encodeTag(request.tag);
+
+    const chainId = await this._getChainId();
+    const message = (await this._eip712())
+      ? signature.getDatasetFragmentProposeTypedData(
+          chainId,
+          await fragmentNFT.getAddress(),
+          datasetId,
+          fragmentId,
+          to,
+          encodedTag
+        )
+      : signature.getDatasetFragmentProposeMessage(
+          chainId,
+          this.client.dataset.target as string,
+          datasetId,
+          fragmentId,
+          to,
+          encodedTag
+        );
+
+    return {
+      signature: await this._sign('propose', message, request, requester),
+      fragmentId: fragmentId.toString(),
+      encodedTag,
+    };
+  }
+
+  /**
+   * Signs the proposal of a batch of Fragments, where `tags[i]` is proposed to `owners[i]`
+   */
+  async signProposeMany(
+    request: ProposeManySignatureRequest,
+    requester?: string
+  ): Promise<ProposeManySignatureResponse> {
+    this._consume(requester);
+
+    const datasetId = this._datasetId(request.datasetId);
+    if (!Array.isArray(request.owners) || !Array.isArray(request.tags))
+      throw new SigningError('owners and tags are required');
+    if (request.owners.length === 0 || request.owners.length !== request.tags.length)
+      throw new SigningError('owners and tags length mismatch');
+    const owners = request.owners.map((owner) => this._address(owner, 'owners'));
+    this._assertTags(datasetId, request.tags);
+
+    const { fragmentNFT } = await this._getDatasetContracts(datasetId);
+    const lastFragmentPendingId = await fragmentNFT.lastFragmentPendingId();
+    const fromId = lastFragmentPendingId + 1n;
+    const toId = lastFragmentPendingId + BigInt(request.tags.length);
+    const encodedTags = request.tags.map(encodeTag);
+
+    const chainId = await this._getChainId();
+    const message = (await this._eip712())
+      ? signature.getDatasetFragmentProposeBatchTypedData(
+          chainId,
+          await fragmentNFT.getAddress(),
+          datasetId,
+          fromId,
+          toId,
+          owners,
+          encodedTags
+        )
+      : signature.getDatasetFragmentProposeBatchMessage(
+          chainId,
+          this.client.dataset.target as string,
+          datasetId,
+          fromId,
+          toId,
+          owners,
+          encodedTags
+        );
+
+    return {
+      signature: await this._sign('proposeMany', message, request, requester),
+      fromId: fromId.toString(),
+      toId: toId.toString(),
+      encodedTags,
+    };
+  }
+
+  /**
+   * Signs a revenue claim of `beneficiary` from the DistributionManager of a Dataset
+   */
+  async signClaim(
+    request: ClaimSignatureRequest,
+    requester?: string
+  ): Promise<ClaimSignatureResponse> {
+    this._consume(requester);
+
+    const datasetId = this._datasetId(request.datasetId);
+    const beneficiary = this._address(request.beneficiary, 'beneficiary');
+    const validSince = this._uint(request.validSince, 'validSince');
+    const validTill = this._uint(request.validTill, 'validTill');
+
+    if (validTill <= validSince) throw new SigningError('validTill must be after validSince');
+
+    const { maxClaimValiditySeconds } = this.policy;
+    if (
+      maxClaimValiditySeconds !== undefined &&
+      validTill - validSince > BigInt(maxClaimValiditySeconds)
+    )
+      throw new PolicyViolationError(
+        `Claim validity window exceeds ${maxClaimValiditySeconds} seconds`
+      );
+
+    const { distributionManager } = await this._getDatasetContracts(datasetId);
+    const distributionManagerAddress = await distributionManager.getAddress();
+    const nonce = await distributionManager.claimNonces(beneficiary);
+
+    const message = (await this._eip712())
+      ? signature.getRevenueClaimTypedData(
+          await this._getChainId(),
+          distributionManagerAddress,
+          beneficiary,
+          validSince,
+          validTill,
+          nonce
+        )
+      : signature.getRevenueClaimMessage(
+          await this._getChainId(),
+          distributionManagerAddress,
+          beneficiary,
+          validSince,
+          validTill,
+          nonce
+        );
+
+    return {
+      signature: await this._sign('claim', message, request, requester),
+      distributionManager: distributionManagerAddress,
+      nonce: nonce.toString(),
+    };
+  }
+
+  private _consume(requester?: string): void {
+    if (!this._rateLimiter || requester === undefined) return;
+    if (!this._rateLimiter.consume(requester))
+      throw new RateLimitError(`Rate limit exceeded for ${requester}`);
+  }
+
+  private _assertTags(datasetId: bigint, tags: string[]): void {
+    for (const tag of tags) {
+      if (typeof tag !== 'string' || tag === '') throw new SigningError('tag is required');
+    }
+
+    const allowedTags = this.policy.datasetTags?.[datasetId.toString()];
+    if (!allowedTags) return;
+
+    for (const tag of tags) {
+      if (!allowedTags.includes(tag))
+        throw new PolicyViolationError(`Tag ${tag} is not allowed for dataset ${datasetId}`);
+    }
+  }
+
+  private _address(value: unknown, name: string): string {
+    if (typeof value !== 'string' || !isAddress(value))
+      throw new SigningError(`${name} must be an address`);
+    return getAddress(value);
+  }
+
+  private _uint(value: unknown, name: string): bigint {
+    try {
+      const result = getBigInt(value as string, name);
+      if (result >= 0n) return result;
+    } catch {
+      // Rethrown below as a bad request
+    }
+
+    throw new SigningError(`${name} must be an unsigned integer`);
+  }
+
+  private _datasetId(value: unknown): bigint {
+    return this._uint(value, 'datasetId');
+  }
+
+  private async _getDatasetContracts(datasetId: bigint): Promise<DatasetContracts> {
+    try {
+      return await this.client.getDatasetContracts(datasetId);
+    } catch (error) {
+      throw new SigningError((error as Error).message, 404);
+    }
+  }
+
+  /**
+   * Checks whether the contracts verify EIP-712 signatures instead of legacy packed messages
+   */
+  private _eip712(): Promise<boolean> {
+    return this.client.dataset.eip712SignaturesEnabled();
+  }
+
+  private async _getChainId(): Promise<bigint> {
+    if (this._chainId === undefined) {
+      this._chainId = (await this.signer.provider!.getNetwork()).chainId;
+    }
+
+    return this._chainId;
+  }
+
+  private async _sign(
+    kind: SignatureKind,
+    message: signature.SignatureMessage,
+    request: object,
+    requester?: string
+  ): Promise<string> {
+    const signed = await signature.signMessage(this.signer, message);
+
+    this._logger({
+      timestamp: new Date().toISOString(),
+      kind,
+      signer: await this.signer.getAddress(),
+      requester,
+      request,
+      signature: signed,
+    });
+
+    return signed;
+  }
+}
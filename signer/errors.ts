@@ -0,0 +1,32 @@
+/**
+ * Error returned to the requester of a signature, carrying the HTTP status of the response
+ */
+export class SigningError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'SigningError';
+    this.status = status;
+  }
+}
+
+/**
+ * Thrown when a signature request is rejected by the configured `SigningPolicy`
+ */
+export class PolicyViolationError extends SigningError {
+  constructor(message: string) {
+    super(message, 403);
+    this.name = 'PolicyViolationError';
+  }
+}
+
+/**
+ * Thrown when a requester exceeds the rate limit of the configured `SigningPolicy`
+ */
+export class RateLimitError extends SigningError {
+  constructor(message: string) {
+    super(message, 429);
+    this.name = 'RateLimitError';
+  }
+}
@@ -0,0 +1,5 @@
+export { PolicyViolationError, RateLimitError, SigningError } from './errors';
+export { RateLimiter } from './RateLimiter';
+export { SigningService } from './SigningService';
+export { createSigningServer } from './server';
+export * from './types';
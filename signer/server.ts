@@ -0,0 +1,63 @@
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+import { SigningError } from './errors';
+import { SigningService } from './SigningService';
+
+const MAX_BODY_SIZE = 64 * 1024;
+
+type Handler = (body: never, requester: string) => Promise<object>;
+
+/**
+ * Creates an HTTP server exposing the signatures of `service` as JSON endpoints:
+ * `POST /mint`, `POST /propose`, `POST /propose-many` and `POST /claim`.
+ * Requests are rate limited by remote address.
+ */
+export function createSigningServer(service: SigningService): Server {
+  const routes: Record<string, Handler> = {
+    '/mint': (body, requester) => service.signMint(body, requester),
+    '/propose': (body, requester) => service.signPropose(body, requester),
+    '/propose-many': (body, requester) => service.signProposeMany(body, requester),
+    '/claim': (body, requester) => service.signClaim(body, requester),
+  };
+
+  return createServer(async (req, res) => {
+    try {
+      const handler = routes[req.url ?? ''];
+      if (!handler) throw new SigningError('Not found', 404);
+      if (req.method !== 'POST') throw new SigningError('Method not allowed', 405);
+
+      const body = await readJsonBody(req);
+
+      send(res, 200, await handler(body as never, req.socket.remoteAddress ?? 'unknown'));
+    } catch (error) {
+      if (error instanceof SigningError) {
+        send(res, error.status, { error: error.message });
+      } else {
+        console.error(error);
+        send(res, 500, { error: 'Internal error' });
+      }
+    }
+  });
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<object> {
+  let body = '';
+
+  for await (const chunk of req) {
+    body += chunk;
+    if (body.length > MAX_BODY_SIZE) throw new SigningError('Request body too large', 413);
+  }
+
+  try {
+    const parsed = JSON.parse(body);
+    if (typeof parsed === 'object' && parsed !== null) return parsed;
+  } catch {
+    // Rethrown below as a bad request
+  }
+
+  throw new SigningError('Request body must be a JSON object');
+}
+
+function send(res: ServerResponse, status: number, body: object): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
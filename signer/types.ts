@@ -0,0 +1,74 @@
+export interface RateLimitPolicy {
+  /** Maximum number of signatures issued to a single requester within `windowSeconds` */
+  maxRequests: number;
+  windowSeconds: number;
+}
+
+export interface SigningPolicy {
+  /** Addresses allowed to own minted Datasets, any address if omitted */
+  allowedOwners?: string[];
+  /** Tag names allowed per Dataset ID, any tag if omitted for a Dataset */
+  datasetTags?: Record<string, string[]>;
+  /** Maximum window between `validSince` and `validTill` of a revenue claim signature, in seconds */
+  maxClaimValiditySeconds?: number;
+  rateLimit?: RateLimitPolicy;
+}
+
+export interface MintSignatureRequest {
+  uuid: string;
+  owner: string;
+}
+
+export interface ProposeSignatureRequest {
+  datasetId: string;
+  to: string;
+  tag: string;
+}
+
+export interface ProposeManySignatureRequest {
+  datasetId: string;
+  owners: string[];
+  tags: string[];
+}
+
+export interface ClaimSignatureRequest {
+  datasetId: string;
+  beneficiary: string;
+  validSince: number;
+  validTill: number;
+}
+
+export interface MintSignatureResponse {
+  signature: string;
+  uuidHash: string;
+}
+
+export interface ProposeSignatureResponse {
+  signature: string;
+  fragmentId: string;
+  encodedTag: string;
+}
+
+export interface ProposeManySignatureResponse {
+  signature: string;
+  fromId: string;
+  toId: string;
+  encodedTags: string[];
+}
+
+export interface ClaimSignatureResponse {
+  signature: string;
+  distributionManager: string;
+  nonce: string;
+}
+
+export type SignatureKind = 'mint' | 'propose' | 'proposeMany' | 'claim';
+
+export interface SignatureLogEntry {
+  timestamp: string;
+  kind: SignatureKind;
+  signer: string;
+  requester?: string;
+  request: object;
+  signature: string;
+}
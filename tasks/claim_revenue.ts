@@ -0,0 +1,196 @@
+import { IERC20Metadata } from '../typechain-types';
+import { Addressable, ZeroAddress, formatUnits } from 'ethers';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { task, types } from 'hardhat/config';
+import { signature } from '../utils';
+import { SIGNER_SOURCES, resolveSigner } from './signers';
+import { withNuklaiErrors } from './utils';
+
+interface TaskArgs {
+  signer: string;
+  contractAddress: Addressable;
+  datasetId: string;
+  signingUrl?: string;
+  claimSigner?: string;
+  validity: number;
+  preview: boolean;
+}
+
+interface TokenInfo {
+  symbol: string;
+  decimals: bigint;
+}
+
+interface ClaimSignature {
+  signature: string;
+  nonce: bigint;
+}
+
+/**
+ * Posts `body` as JSON to `url` and returns the parsed JSON response, throwing the `error` of non 2xx responses
+ */
+const postJson = (url: URL, body: object): Promise<Record<string, string>> =>
+  new Promise((resolve, reject) => {
+    const request = (url.protocol === 'https:' ? httpsRequest : httpRequest)(
+      url,
+      { method: 'POST', headers: { 'Content-Type': 'application/json' } },
+      (response) => {
+        let data = '';
+        response.on('data', (chunk) => (data += chunk));
+        response.on('end', () => {
+          try {
+            const parsed = JSON.parse(data);
+            if (response.statusCode! >= 300)
+              reject(new Error(`Signing server responded ${response.statusCode}: ${parsed.error}`));
+            else resolve(parsed);
+          } catch {
+            reject(new Error(`Signing server responded ${response.statusCode}: ${data}`));
+          }
+        });
+      }
+    );
+
+    request.on('error', reject);
+    request.end(JSON.stringify(body));
+  });
+
+task('claim-revenue', 'Previews and claims the revenue of a data set owner or contributor')
+  .addParam('signer', `Beneficiary claiming the revenue (${SIGNER_SOURCES})`)
+  .addParam('contractAddress', 'Address of the DatasetNFT contract')
+  .addParam('datasetId', 'Id of the data set')
+  .addOptionalParam('signingUrl', 'URL of the signing server issuing the claim signature')
+  .addOptionalParam(
+    'claimSigner',
+    `Signer with SIGNER_ROLE producing the claim signature locally (${SIGNER_SOURCES})`
+  )
+  .addOptionalParam('validity', 'Validity of the claim signature in seconds', 3600, types.int)
+  .addFlag('preview', 'Only previews the claimable revenue')
+  .setAction(
+    withNuklaiErrors(async (taskArgs: TaskArgs) => {
+      if (!taskArgs.preview && !taskArgs.signingUrl === !taskArgs.claimSigner)
+        throw new Error('Either a signing URL or a claim signer must be provided');
+
+      const { ClaimType, NuklaiClient } = await import('../sdk');
+
+      const wallet = await resolveSigner(taskArgs.signer);
+      const beneficiary = await wallet.getAddress();
+      const client = new NuklaiClient(taskArgs.contractAddress.toString(), wallet);
+      const dataset = client.dataset;
+      const datasetId = BigInt(taskArgs.datasetId);
+      const { distributionManager } = await client.getDatasetContracts(datasetId);
+
+      const isOwner = (await dataset.ownerOf(datasetId)) === beneficiary;
+      const tokens = [...new Set((await client.getPayments(datasetId)).map(({ token }) => token))];
+
+      const tokenInfo: Record<string, TokenInfo> = {};
+      for (const token of tokens) {
+        if (token === ZeroAddress) {
+          tokenInfo[token] = { symbol: 'native', decimals: 18n };
+          continue;
+        }
+
+        const erc20 = (await ethers.getContractAt(
+          'IERC20Metadata',
+          token
+        )) as unknown as IERC20Metadata;
+        tokenInfo[token] = { symbol: await erc20.symbol(), decimals: await erc20.decimals() };
+      }
+      const format = (token: string, amount: bigint) =>
+        `${formatUnits(amount, tokenInfo[token]?.decimals ?? 18n)} ${
+          tokenInfo[token]?.symbol ?? token
+        }`;
+
+      let ownerFees = 0n;
+      let contributions = 0n;
+      const preview = [];
+      for (const token of tokens) {
+        const ownerFee = isOwner ? await distributionManager.pendingOwnerFee(token) : 0n;
+        const contribution = await distributionManager.calculatePayoutByToken(token, beneficiary);
+
+        ownerFees += ownerFee;
+        contributions += contribution;
+        preview.push({
+          token,
+          ownerFee: format(token, ownerFee),
+          contribution: format(token, contribution),
+        });
+      }
+
+      console.log(`Revenue of ${beneficiary}${isOwner ? ' (data set owner)' : ''}`);
+      console.table(preview);
+
+      if (ownerFees === 0n && contributions === 0n) {
+        console.log('Nothing to claim');
+        return;
+      }
+      if (taskArgs.preview) return;
+
+      // The owner claims revert without unclaimed payments, so they are only used with pending owner fees
+      const claimType =
+        ownerFees === 0n
+          ? ClaimType.CONTRIBUTOR
+          : contributions === 0n
+          ? ClaimType.DATASET_OWNER
+          : ClaimType.DATASET_OWNER_AND_CONTRIBUTOR;
+
+      const { timestamp } = (await ethers.provider.getBlock('latest'))!;
+      const sigValidSince = BigInt(timestamp);
+      const sigValidTill = sigValidSince + BigInt(taskArgs.validity);
+
+      let claimSignature: ClaimSignature;
+      if (taskArgs.signingUrl) {
+        const response = await postJson(
+          new URL('claim', `${taskArgs.signingUrl.replace(/\/$/, '')}/`),
+          {
+            datasetId: datasetId.toString(),
+            beneficiary,
+            validSince: Number(sigValidSince),
+            validTill: Number(sigValidTill),
+          }
+        );
+        claimSignature = { signature: response.signature, nonce: BigInt(response.nonce) };
+      } else {
+        const claimSigner = await resolveSigner(taskArgs.claimSigner!);
+        if (!(await dataset.isSigner(await claimSigner.getAddress())))
+          throw new Error('Claim signer has no SIGNER_ROLE');
+
+        const { chainId } = await ethers.provider.getNetwork();
+        const distributionAddress = await distributionManager.getAddress();
+        const nonce = await distributionManager.claimNonces(beneficiary);
+        const message = (await dataset.eip712SignaturesEnabled())
+          ? signature.getRevenueClaimTypedData(
+              chainId,
+              distributionAddress,
+              beneficiary,
+              sigValidSince,
+              sigValidTill,
+              nonce
+            )
+          : signature.getRevenueClaimMessage(
+              chainId,
+              distributionAddress,
+              beneficiary,
+              sigValidSince,
+              sigValidTill,
+              nonce
+            );
+
+        claimSignature = { signature: await signature.signMessage(claimSigner, message), nonce };
+      }
+
+      console.log(`Claiming as ${ClaimType[claimType].toLowerCase().replace(/_/g, ' ')}...`);
+      const { payouts, receipt } = await client.claimPayouts({
+        datasetId,
+        sigValidSince,
+        sigValidTill,
+        ...claimSignature,
+        claimType,
+      });
+
+      console.table(
+        payouts.map(({ to, token, amount }) => ({ to, token, amount: format(token, amount) }))
+      );
+      console.log('Transaction hash', receipt.hash);
+    })
+  );
@@ -0,0 +1,56 @@
+import { Addressable, parseUnits } from 'ethers';
+import { task, types } from 'hardhat/config';
+import { SIGNER_SOURCES, resolveSigner } from './signers';
+import { getFeeToken, parseConsumers, withNuklaiErrors } from './utils';
+
+interface TaskArgs {
+  signer: string;
+  contractAddress: Addressable;
+  datasetId: string;
+  subscriptionId: string;
+  extraDays: number;
+  extraConsumers: string;
+  maxExtraFee?: string;
+}
+
+task('extend-subscription', 'Extends a subscription duration-wise and/or consumer-wise')
+  .addParam('signer', `Subscription owner paying the extra fee (${SIGNER_SOURCES})`)
+  .addParam('contractAddress', 'Address of the DatasetNFT contract')
+  .addParam('datasetId', 'Id of the data set')
+  .addParam('subscriptionId', 'Id of the subscription')
+  .addOptionalParam('extraDays', 'Extra duration in days', 0, types.int)
+  .addOptionalParam(
+    'extraConsumers',
+    'Count of extra consumers, or their addresses separated by commas (0x1,0x2)',
+    '0'
+  )
+  .addOptionalParam(
+    'maxExtraFee',
+    'Maximum extra fee in fee token units, defaults to the quoted extra fee'
+  )
+  .setAction(
+    withNuklaiErrors(async (taskArgs: TaskArgs) => {
+      const { NuklaiClient } = await import('../sdk');
+
+      const wallet = await resolveSigner(taskArgs.signer);
+      const client = new NuklaiClient(taskArgs.contractAddress.toString(), wallet);
+      const datasetId = BigInt(taskArgs.datasetId);
+      const { subscriptionManager } = await client.getDatasetContracts(datasetId);
+
+      const decimals = await (await getFeeToken(subscriptionManager)).decimals();
+
+      const receipt = await client.extendSubscription({
+        datasetId,
+        subscriptionId: taskArgs.subscriptionId,
+        extraDurationInDays: taskArgs.extraDays,
+        extraConsumers: parseConsumers(taskArgs.extraConsumers),
+        maxExtraFee:
+          taskArgs.maxExtraFee !== undefined
+            ? parseUnits(taskArgs.maxExtraFee, decimals)
+            : undefined,
+      });
+
+      console.log(`Subscription ${taskArgs.subscriptionId} extended`);
+      console.log('Transaction hash', receipt.hash);
+    })
+  );
@@ -6,3 +6,26 @@ exports.approveTokenForPayments = require('./approve_payment_token');
 exports.revokeTokenApproval = require('./revoke_payment_token');
 exports.setWhitelistManager = require('./set_whitelist_manager');
 exports.unsetWhitelistManager = require('./unset_whitelist_manager');
+exports.mintDataset = require('./mint_dataset');
+exports.inspectDataset = require('./inspect_dataset');
+exports.startSigner = require('./start_signer');
+exports.indexEvents = require('./index_events');
+exports.reconcile = require('./reconcile');
+exports.rolesAudit = require('./roles_audit');
+exports.proposeFragments = require('./propose_fragments');
+exports.reviewFragments = require('./review_fragments');
+exports.quoteSubscription = require('./quote_subscription');
+exports.subscribe = require('./subscribe');
+exports.extendSubscription = require('./extend_subscription');
+exports.addConsumers = require('./add_consumers');
+exports.removeConsumers = require('./remove_consumers');
+exports.replaceConsumers = require('./replace_consumers');
+exports.subscriptionStatus = require('./subscription_status');
+exports.claimRevenue = require('./claim_revenue');
+exports.setDistribution = require('./set_distribution');
+exports.upgradeFragments = require('./upgrade_fragments');
+exports.validateManifest = require('./validate_manifest');
+exports.predictAddresses = require('./predict_addresses');
+exports.upgradeDataset = require('./upgrade_dataset');
+exports.migrateManagers = require('./migrate_managers');
+exports.smokeTest = require('./smoke_test');
@@ -0,0 +1,41 @@
+import { Addressable } from 'ethers';
+import { task, types } from 'hardhat/config';
+import { withNuklaiErrors } from './utils';
+
+interface TaskArgs {
+  contractAddress: Addressable;
+  db: string;
+  fromBlock: number;
+  batchSize: number;
+}
+
+task('index-events', 'Indexes the protocol events of a DatasetNFT contract into a local database')
+  .addParam('contractAddress', 'Address of the DatasetNFT contract')
+  .addOptionalParam('db', 'Path of the JSON Lines database file', 'nuklai-events.jsonl')
+  .addOptionalParam('fromBlock', 'Block to start from on the first run', 0, types.int)
+  .addOptionalParam('batchSize', 'Maximum number of blocks per logs request', 2000, types.int)
+  .setAction(
+    withNuklaiErrors(async (taskArgs: TaskArgs) => {
+      const { Indexer, JsonStore } = await import('../indexer');
+
+      const store = new JsonStore(taskArgs.db);
+      const previousCheckpoint = await store.getCheckpoint();
+      const previousEvents = (await store.getEvents()).length;
+
+      const indexer = new Indexer(taskArgs.contractAddress.toString(), ethers.provider, store, {
+        fromBlock: taskArgs.fromBlock,
+        batchSize: taskArgs.batchSize,
+      });
+      const checkpoint = await indexer.sync();
+
+      console.log(
+        'Indexed',
+        (await store.getEvents()).length - previousEvents,
+        'events from block',
+        previousCheckpoint !== undefined ? previousCheckpoint + 1 : taskArgs.fromBlock,
+        'to block',
+        checkpoint
+      );
+      console.log('Tracked contracts:', (await store.getContracts()).length);
+    })
+  );
@@ -0,0 +1,130 @@
+import {
+  DatasetNFT,
+  DistributionManager,
+  ERC20SubscriptionManager,
+  FragmentNFT,
+  VerifierManager,
+} from '../typechain-types';
+import { Addressable, ZeroAddress, formatUnits, toBigInt } from 'ethers';
+import { constants, encoding } from '../utils';
+import { task } from 'hardhat/config';
+import { getTagWeights, withNuklaiErrors } from './utils';
+
+interface TaskArgs {
+  contractAddress: Addressable;
+  datasetId?: string;
+  uuid?: string;
+  tags?: string;
+  json: boolean;
+}
+
+task('inspect-dataset', 'Prints the on-chain configuration of a data set')
+  .addParam('contractAddress', 'Address of the DatasetNFT contract')
+  .addOptionalParam('datasetId', 'Id of the data set')
+  .addOptionalParam('uuid', 'UUID of the data set (used if no datasetId is given)')
+  .addOptionalParam('tags', 'Contribution tags to inspect, separated by commas (tag1,tag2)')
+  .addFlag('json', 'Prints the configuration as JSON')
+  .setAction(
+    withNuklaiErrors(async (taskArgs: TaskArgs) => {
+      if (!taskArgs.datasetId && !taskArgs.uuid) throw new Error('No datasetId or uuid provided');
+
+      const datasetId = taskArgs.datasetId
+        ? BigInt(taskArgs.datasetId)
+        : toBigInt(encoding.getUuidHash(taskArgs.uuid!));
+
+      const dataset = (await ethers.getContractAt(
+        'DatasetNFT',
+        taskArgs.contractAddress
+      )) as unknown as DatasetNFT;
+
+      const owner = await dataset.ownerOf(datasetId);
+      const configuration = await dataset.configurations(datasetId);
+      const proxies = await dataset.proxies(datasetId);
+      const fragmentAddress = await dataset.fragments(datasetId);
+      const deployerFeeModel = Number(await dataset.deployerFeeModels(datasetId));
+
+      const subscriptionManager = (await ethers.getContractAt(
+        'ERC20SubscriptionManager',
+        proxies.subscriptionManager
+      )) as unknown as ERC20SubscriptionManager;
+      const distributionManager = (await ethers.getContractAt(
+        'DistributionManager',
+        proxies.distributionManager
+      )) as unknown as DistributionManager;
+      const verifierManager = (await ethers.getContractAt(
+        'VerifierManager',
+        proxies.verifierManager
+      )) as unknown as VerifierManager;
+      const fragment = (await ethers.getContractAt(
+        'FragmentNFT',
+        fragmentAddress
+      )) as unknown as FragmentNFT;
+
+      const currentSnapshotId = await fragment.currentSnapshotId();
+
+      // Tags are stored as hashes, so names are only known for the ones given by the caller
+      const tagNames: Record<string, string> = {};
+      for (const tag of taskArgs.tags ? taskArgs.tags.split(',') : []) {
+        tagNames[encoding.encodeTag(tag.trim())] = tag.trim();
+      }
+
+      const [fragmentTags] = await fragment.tagCountAt(currentSnapshotId);
+      const verifierEvents = await verifierManager.queryFilter(
+        verifierManager.filters.FragmentTagVerifierSet()
+      );
+      const tags = [
+        ...new Set([
+          ...Object.keys(tagNames),
+          ...fragmentTags,
+          ...verifierEvents.map((event) => event.args.tag),
+        ]),
+      ];
+
+      const weights = tags.length > 0 ? await getTagWeights(distributionManager, tags) : [];
+
+      const tagsConfiguration = [];
+      for (const [index, tag] of tags.entries()) {
+        tagsConfiguration.push({
+          tag: tagNames[tag] ?? tag,
+          weight: weights ? formatUnits(weights[index], 18) : 'not set',
+          verifier: await verifierManager.verifiers(tag),
+        });
+      }
+
+      const configurationDetails = {
+        datasetId: datasetId.toString(),
+        owner,
+        subscriptionManagerImplementation: configuration.subscriptionManager,
+        distributionManagerImplementation: configuration.distributionManager,
+        verifierManagerImplementation: configuration.verifierManager,
+        subscriptionManager: proxies.subscriptionManager,
+        distributionManager: proxies.distributionManager,
+        verifierManager: proxies.verifierManager,
+        fragmentNFT: fragmentAddress,
+        deployerFeeModel: constants.DeployerFeeModel[deployerFeeModel],
+        deployerFeePercentage: formatUnits(await dataset.deployerFeePercentage(datasetId), 18),
+        pendingFragmentExtraFeeEnabled: await dataset.datasetIdToPendingFragmentExtraFeeEnabled(
+          datasetId
+        ),
+        feeToken: await subscriptionManager.token(),
+        feePerConsumerPerDay: (await subscriptionManager.feePerConsumerPerDay()).toString(),
+        datasetOwnerPercentage: formatUnits(await distributionManager.datasetOwnerPercentage(), 18),
+        defaultVerifier: await verifierManager.defaultVerifier(),
+        currentSnapshotId: currentSnapshotId.toString(),
+      };
+
+      if (taskArgs.json) {
+        console.log(JSON.stringify({ ...configurationDetails, tags: tagsConfiguration }, null, 2));
+        return;
+      }
+
+      console.table(configurationDetails);
+      console.table(
+        tagsConfiguration.map((tagConfiguration) => ({
+          ...tagConfiguration,
+          verifier:
+            tagConfiguration.verifier === ZeroAddress ? '(default)' : tagConfiguration.verifier,
+        }))
+      );
+    })
+  );
@@ -0,0 +1,429 @@
+import { DatasetFactory, DatasetNFT, IERC20Metadata } from '../typechain-types';
+import { Addressable, ZeroAddress, ZeroHash, formatUnits, getAddress } from 'ethers';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { task, types } from 'hardhat/config';
+import { constants, encoding } from '../utils';
+import { SIGNER_SOURCES, resolveSigner } from './signers';
+import { formatPercentage, getFeeToken, getTagWeights, withNuklaiErrors } from './utils';
+
+interface TaskArgs {
+  signer?: string;
+  execute: boolean;
+  force: boolean;
+  contractAddress: Addressable;
+  datasetId: string;
+  templateVersion?: string;
+  tags?: string;
+  state?: string;
+  fromBlock: number;
+}
+
+type ManagerName = 'subscriptionManager' | 'distributionManager' | 'verifierManager';
+
+const MANAGERS: ManagerName[] = ['subscriptionManager', 'distributionManager', 'verifierManager'];
+
+interface ExportedSubscriptionManager {
+  token: string;
+  feePerConsumerPerDay: string;
+  /** Subscriptions still valid, which are not carried over to the new SubscriptionManager */
+  activeSubscriptions: string[];
+}
+
+interface ExportedDistributionManager {
+  datasetOwnerPercentage: string;
+  tags: string[];
+  weights: string[];
+  /** Fee token balance of the DistributionManager, only claimable from the old one */
+  unclaimedRevenue: string;
+}
+
+interface ExportedVerifierManager {
+  defaultVerifier: string;
+  tags: string[];
+  verifiers: string[];
+  /** Fragments only resolvable through the old VerifierManager */
+  pendingFragments: string[];
+}
+
+/**
+ * State of the replaced Managers of a data set and progress of its migration,
+ * saved after each step so that an interrupted migration can be resumed
+ */
+interface MigrationState {
+  datasetNFT: string;
+  datasetId: string;
+  version: string;
+  /** Managers of the data set before the migration */
+  proxies: Record<ManagerName, string>;
+  /** Managers cloned anew from the template version, losing their state */
+  replaced: ManagerName[];
+  subscriptionManager?: ExportedSubscriptionManager;
+  distributionManager?: ExportedDistributionManager;
+  verifierManager?: ExportedVerifierManager;
+  /** Hashes of the last transaction of each step, once sent by this task */
+  transactions: Partial<Record<'setManagers' | ManagerName, string>>;
+}
+
+const writeState = (path: string, state: MigrationState) =>
+  writeFileSync(path, JSON.stringify(state, null, 2) + '\n');
+
+task(
+  'migrate-managers',
+  'Migrates the Managers of a data set to a template version of the DatasetFactory, carrying over their configuration'
+)
+  .addParam('contractAddress', 'Address of the DatasetNFT contract')
+  .addParam('datasetId', 'Id of the data set')
+  .addOptionalParam(
+    'templateVersion',
+    'Template version to migrate to, defaults to the current one of the DatasetFactory'
+  )
+  .addOptionalParam(
+    'tags',
+    'Weighted contribution tags without fragments or verifiers, separated by commas (tag1,tag2)'
+  )
+  .addOptionalParam(
+    'state',
+    'Path of the migration state, defaults to manager-migration.<network>.<datasetId>.json'
+  )
+  .addOptionalParam('fromBlock', 'Block the data set was minted at', 0, types.int)
+  .addOptionalParam('signer', `Data set owner (${SIGNER_SOURCES})`)
+  .addFlag('execute', 'Sends the migration transactions')
+  .addFlag('force', 'Migrates despite active subscriptions, unclaimed revenue or pending fragments')
+  .setAction(
+    withNuklaiErrors(async (taskArgs: TaskArgs) => {
+      if (taskArgs.execute && !taskArgs.signer) throw new Error('No signer provided');
+
+      const { NuklaiClient } = await import('../sdk');
+
+      const dataset = (await ethers.getContractAt(
+        'DatasetNFT',
+        taskArgs.contractAddress
+      )) as unknown as DatasetNFT;
+      const datasetAddress = await dataset.getAddress();
+      const datasetId = BigInt(taskArgs.datasetId);
+
+      const factoryAddress = await dataset.datasetFactory();
+      if (factoryAddress === ZeroAddress) throw new Error('No DatasetFactory set');
+      const factory = (await ethers.getContractAt(
+        'DatasetFactory',
+        factoryAddress
+      )) as unknown as DatasetFactory;
+
+      const version = taskArgs.templateVersion
+        ? BigInt(taskArgs.templateVersion)
+        : await factory.currentTemplateVersion();
+      if (version === 0n) throw new Error('No template version registered');
+      const template = await factory.templateVersion(version);
+
+      const statePath =
+        taskArgs.state ?? `manager-migration.${network.name}.${taskArgs.datasetId}.json`;
+      const previous: MigrationState | undefined = existsSync(statePath)
+        ? JSON.parse(readFileSync(statePath, 'utf8'))
+        : undefined;
+      if (
+        previous &&
+        (previous.datasetNFT !== datasetAddress ||
+          previous.datasetId !== datasetId.toString() ||
+          previous.version !== version.toString())
+      )
+        throw new Error(
+          `${statePath} tracks the migration of data set ${previous.datasetId} of ${previous.datasetNFT} to version ${previous.version}`
+        );
+
+      const client = new NuklaiClient(datasetAddress, ethers.provider);
+
+      // Once the Managers are replaced, their previous state is only known from the state file
+      let state: MigrationState;
+      if (previous?.transactions.setManagers) {
+        state = previous;
+        console.log('Resuming the migration of', statePath);
+      } else {
+        const configuration = await dataset.configurations(datasetId);
+        const replaced = MANAGERS.filter((name) => configuration[name] !== template[name]);
+        const currentVersion = await factory.datasetTemplateVersion(datasetId);
+        if (replaced.length === 0) {
+          console.log(`Data set ${datasetId} already uses template version ${version}`);
+          return;
+        }
+
+        const { subscriptionManager, distributionManager, verifierManager, fragmentNFT } =
+          await client.getDatasetContracts(datasetId);
+
+        state = {
+          datasetNFT: datasetAddress,
+          datasetId: datasetId.toString(),
+          version: version.toString(),
+          proxies: {
+            subscriptionManager: await subscriptionManager.getAddress(),
+            distributionManager: await distributionManager.getAddress(),
+            verifierManager: await verifierManager.getAddress(),
+          },
+          replaced,
+          transactions: {},
+        };
+
+        if (replaced.includes('subscriptionManager')) {
+          const activeSubscriptions = [];
+          const totalSupply = await subscriptionManager.totalSupply();
+          for (let i = 0n; i < totalSupply; i++) {
+            const subscriptionId = await subscriptionManager.tokenByIndex(i);
+            const { active } = await client.getSubscription({
+              datasetId,
+              subscriptionId,
+              fromBlock: taskArgs.fromBlock,
+            });
+            if (active) activeSubscriptions.push(subscriptionId.toString());
+          }
+
+          state.subscriptionManager = {
+            token: await subscriptionManager.token(),
+            feePerConsumerPerDay: (await subscriptionManager.feePerConsumerPerDay()).toString(),
+            activeSubscriptions,
+          };
+        }
+
+        if (replaced.includes('distributionManager')) {
+          // Tags are stored as hashes, so weighted tags are only known from fragments, verifiers and the caller
+          const [fragmentTags] = await fragmentNFT.tagCountAt(
+            await fragmentNFT.currentSnapshotId()
+          );
+          const verifierEvents = await verifierManager.queryFilter(
+            verifierManager.filters.FragmentTagVerifierSet(),
+            taskArgs.fromBlock
+          );
+          const tags = [
+            ...new Set([
+              ...(taskArgs.tags?.split(',').map((tag) => encoding.encodeTag(tag.trim())) ?? []),
+              ...fragmentTags,
+              ...verifierEvents.map((event) => event.args.tag),
+            ]),
+          ];
+
+          const weights = await getTagWeights(
+            distributionManager,
+            tags.length > 0 ? tags : [ZeroHash]
+          );
+          const weighted = weights
+            ? tags
+                .map((tag, i) => ({ tag, weight: weights[i] }))
+                .filter(({ weight }) => weight > 0n)
+            : [];
+
+          const sum = weighted.reduce((sum, { weight }) => sum + weight, 0n);
+          const base = await distributionManager.BASE_100_PERCENT();
+          if (weights && sum !== base)
+            throw new Error(
+              `Weights of the known tags sum up to ${formatPercentage(
+                sum
+              )}, provide the other weighted tags with --tags`
+            );
+
+          const token = await subscriptionManager.token();
+          state.distributionManager = {
+            datasetOwnerPercentage: (await distributionManager.datasetOwnerPercentage()).toString(),
+            tags: weighted.map(({ tag }) => tag),
+            weights: weighted.map(({ weight }) => weight.toString()),
+            unclaimedRevenue:
+              token === ZeroAddress
+                ? '0'
+                : (
+                    await (
+                      await getFeeToken(subscriptionManager)
+                    ).balanceOf(await distributionManager.getAddress())
+                  ).toString(),
+          };
+        }
+
+        if (replaced.includes('verifierManager')) {
+          const tagVerifiers: Record<string, string> = {};
+          for (const event of await verifierManager.queryFilter(
+            verifierManager.filters.FragmentTagVerifierSet(),
+            taskArgs.fromBlock
+          )) {
+            const verifier = await verifierManager.verifiers(event.args.tag);
+            if (verifier !== ZeroAddress) tagVerifiers[event.args.tag] = verifier;
+          }
+
+          const pendingFragments = new Set<string>();
+          for (const event of await fragmentNFT.queryFilter(
+            fragmentNFT.filters.FragmentPending(),
+            taskArgs.fromBlock
+          )) {
+            if ((await fragmentNFT.pendingFragmentOwners(event.args.id)) !== ZeroAddress)
+              pendingFragments.add(event.args.id.toString());
+          }
+
+          state.verifierManager = {
+            defaultVerifier: await verifierManager.defaultVerifier(),
+            tags: Object.keys(tagVerifiers),
+            verifiers: Object.values(tagVerifiers),
+            pendingFragments: [...pendingFragments],
+          };
+        }
+
+        writeState(statePath, state);
+
+        console.log(
+          `Migrating data set ${datasetId} from template version ${
+            currentVersion === 0n ? '(custom)' : currentVersion
+          } to ${version}`
+        );
+        console.table(
+          MANAGERS.map((name) => ({
+            manager: name,
+            current: configuration[name],
+            template: template[name],
+            replaced: replaced.includes(name),
+          }))
+        );
+      }
+
+      const { subscriptionManager, distributionManager, verifierManager } = state;
+      if (subscriptionManager) {
+        const feeToken =
+          subscriptionManager.token !== ZeroAddress &&
+          ((await ethers.getContractAt(
+            'IERC20Metadata',
+            subscriptionManager.token
+          )) as unknown as IERC20Metadata);
+        console.log(
+          'Subscription fee:',
+          feeToken
+            ? `${formatUnits(
+                subscriptionManager.feePerConsumerPerDay,
+                await feeToken.decimals()
+              )} ${await feeToken.symbol()} per consumer per day`
+            : '(not set)'
+        );
+      }
+      if (distributionManager) {
+        console.log(
+          'Data set owner percentage:',
+          formatPercentage(BigInt(distributionManager.datasetOwnerPercentage))
+        );
+        for (const [i, tag] of distributionManager.tags.entries())
+          console.log(
+            `Tag ${tag} weight:`,
+            formatPercentage(BigInt(distributionManager.weights[i]))
+          );
+      }
+      if (verifierManager) {
+        console.log('Default verifier:', verifierManager.defaultVerifier);
+        for (const [i, tag] of verifierManager.tags.entries())
+          console.log(`Tag ${tag} verifier:`, verifierManager.verifiers[i]);
+      }
+
+      if (!state.transactions.setManagers) {
+        const blockers = [];
+        if (subscriptionManager?.activeSubscriptions.length)
+          blockers.push(`${subscriptionManager.activeSubscriptions.length} active subscriptions`);
+        if (distributionManager && BigInt(distributionManager.unclaimedRevenue) > 0n)
+          blockers.push(`${distributionManager.unclaimedRevenue} unclaimed revenue`);
+        if (verifierManager?.pendingFragments.length)
+          blockers.push(`${verifierManager.pendingFragments.length} pending fragments`);
+
+        for (const blocker of blockers)
+          console.log(`Warning: ${blocker} left behind in the replaced Managers`);
+
+        if (!taskArgs.execute) {
+          console.log('Migration state exported to', statePath);
+          return;
+        }
+        if (blockers.length > 0 && !taskArgs.force)
+          throw new Error(`Migration left ${blockers.join(', ')} behind, use --force to migrate`);
+      }
+
+      if (!taskArgs.execute) return;
+
+      const wallet = await resolveSigner(taskArgs.signer!);
+      if ((await dataset.ownerOf(datasetId)) !== (await wallet.getAddress()))
+        throw new Error('Signer is not the data set owner');
+
+      if (!state.transactions.setManagers) {
+        for (const name of MANAGERS)
+          if (!(await dataset.hasRole(constants.WHITELISTED_MANAGER_ROLE, template[name])))
+            throw new Error(`${name} ${template[name]} of version ${version} is not whitelisted`);
+
+        console.log(`Cloning the ${state.replaced.join(', ')} of template version ${version}`);
+        const response = await dataset.connect(wallet).setManagers(datasetId, {
+          subscriptionManager: template.subscriptionManager,
+          distributionManager: template.distributionManager,
+          verifierManager: template.verifierManager,
+        });
+        await response.wait();
+        state.transactions.setManagers = response.hash;
+        writeState(statePath, state);
+      }
+
+      const contracts = await client.connect(wallet).getDatasetContracts(datasetId);
+
+      if (
+        subscriptionManager &&
+        !state.transactions.subscriptionManager &&
+        subscriptionManager.token !== ZeroAddress
+      ) {
+        console.log('Importing the subscription fee');
+        const response = await contracts.subscriptionManager.setFee(
+          subscriptionManager.token,
+          subscriptionManager.feePerConsumerPerDay
+        );
+        await response.wait();
+        state.transactions.subscriptionManager = response.hash;
+        writeState(statePath, state);
+      }
+
+      if (distributionManager && !state.transactions.distributionManager) {
+        console.log('Importing the owner percentage and tag weights');
+        const response =
+          distributionManager.tags.length > 0
+            ? await contracts.distributionManager.setDSOwnerPercentageAndTagWeights(
+                distributionManager.datasetOwnerPercentage,
+                distributionManager.tags,
+                distributionManager.weights
+              )
+            : await contracts.distributionManager.setDatasetOwnerPercentage(
+                distributionManager.datasetOwnerPercentage
+              );
+        await response.wait();
+        state.transactions.distributionManager = response.hash;
+        writeState(statePath, state);
+      }
+
+      if (verifierManager && !state.transactions.verifierManager) {
+        console.log('Importing the default and tag verifiers');
+        let response;
+        if (verifierManager.defaultVerifier !== ZeroAddress) {
+          response = await contracts.verifierManager.setDefaultVerifier(
+            verifierManager.defaultVerifier
+          );
+          await response.wait();
+        }
+        if (verifierManager.tags.length > 0) {
+          response = await contracts.verifierManager.setTagVerifiers(
+            verifierManager.tags,
+            verifierManager.verifiers
+          );
+          await response.wait();
+        }
+        if (response) {
+          state.transactions.verifierManager = response.hash;
+          writeState(statePath, state);
+        }
+      }
+
+      console.log(
+        `Data set ${datasetId} migrated to template version`,
+        (await factory.datasetTemplateVersion(datasetId)).toString()
+      );
+      if (state.subscriptionManager?.activeSubscriptions.length)
+        console.log(
+          'Subscriptions are not carried over, previous subscriptions remain in',
+          getAddress(state.proxies.subscriptionManager)
+        );
+      if (state.distributionManager && BigInt(state.distributionManager.unclaimedRevenue) > 0n)
+        console.log(
+          'Unclaimed revenue remains claimable from',
+          getAddress(state.proxies.distributionManager)
+        );
+    })
+  );
@@ -0,0 +1,102 @@
+import { DatasetFactory, DatasetNFT, IERC20Metadata } from '../typechain-types';
+import { Addressable, parseUnits } from 'ethers';
+import { encoding, signature } from '../utils';
+import { task } from 'hardhat/config';
+import { SIGNER_SOURCES, resolveSigner } from './signers';
+import { withNuklaiErrors } from './utils';
+
+interface TaskArgs {
+  signer: string;
+  mintSigner: string;
+  factoryAddress: Addressable;
+  uuid: string;
+  owner: Addressable;
+  defaultVerifier: Addressable;
+  feeToken: Addressable;
+  dailyFee: string;
+  ownerPercentage: string;
+  tags: string;
+  weights: string;
+  extraFee: boolean;
+}
+
+task('mint-dataset', 'Mints and configures a data set through the DatasetFactory')
+  .addParam('signer', `Transaction sender (${SIGNER_SOURCES})`)
+  .addParam('mintSigner', `Signer with SIGNER_ROLE signing the mint request (${SIGNER_SOURCES})`)
+  .addParam('factoryAddress', 'Address of the DatasetFactory contract')
+  .addParam('uuid', 'Off-chain generated UUID of the data set')
+  .addParam('owner', 'Address of the data set owner')
+  .addParam('defaultVerifier', 'Address of the default verifier')
+  .addParam('feeToken', 'Address of the ERC20 token used for subscription payments')
+  .addParam('dailyFee', 'Subscription fee per consumer per day, in token units (1.5)')
+  .addParam('ownerPercentage', 'Percentage of each payment sent to the data set owner (0.1)')
+  .addParam('tags', 'Contribution tags, separated by commas (tag1,tag2)')
+  .addParam('weights', 'Weights of the respective tags, separated by commas (0.4,0.6)')
+  .addFlag('extraFee', 'Enables the extra fee per pending fragment for the data set')
+  .setAction(
+    withNuklaiErrors(async (taskArgs: TaskArgs) => {
+      const wallet = await resolveSigner(taskArgs.signer);
+      const mintSigner = await resolveSigner(taskArgs.mintSigner);
+
+      const factory = (await ethers.getContractAt(
+        'DatasetFactory',
+        taskArgs.factoryAddress,
+        wallet
+      )) as unknown as DatasetFactory;
+
+      const datasetAddress = await factory.datasetNFT();
+
+      const dataset = (await ethers.getContractAt(
+        'DatasetNFT',
+        datasetAddress,
+        wallet
+      )) as unknown as DatasetNFT;
+
+      if (!(await dataset.isSigner(await mintSigner.getAddress())))
+        throw new Error('Signer has no SIGNER_ROLE');
+
+      const tags = taskArgs.tags.split(',').map((tag) => tag.trim());
+      const weights = taskArgs.weights.split(',').map((weight) => parseUnits(String(weight), 18));
+
+      if (tags.length !== weights.length) throw new Error('args length mismatch');
+
+      const feeToken = (await ethers.getContractAt(
+        'IERC20Metadata',
+        taskArgs.feeToken
+      )) as unknown as IERC20Metadata;
+      const dailyFee = parseUnits(taskArgs.dailyFee, await feeToken.decimals());
+      const ownerPercentage = parseUnits(taskArgs.ownerPercentage, 18);
+
+      const { chainId } = await ethers.provider.getNetwork();
+      const uuidHash = encoding.getUuidHash(taskArgs.uuid);
+
+      const owner = taskArgs.owner.toString();
+      const mintMessage = (await dataset.eip712SignaturesEnabled())
+        ? signature.getDatasetMintTypedData(chainId, datasetAddress, uuidHash, owner)
+        : signature.getDatasetMintMessage(chainId, datasetAddress, uuidHash, owner);
+      const mintSignature = await signature.signMessage(mintSigner, mintMessage);
+
+      const { NuklaiClient } = await import('../sdk');
+      const client = new NuklaiClient(datasetAddress, wallet);
+
+      console.log('Minting data set', taskArgs.uuid, 'to', taskArgs.owner);
+      const result = await client.mintDataset({
+        uuid: taskArgs.uuid,
+        owner: taskArgs.owner,
+        signature: mintSignature,
+        defaultVerifier: taskArgs.defaultVerifier,
+        feeToken: taskArgs.feeToken,
+        feePerConsumerPerDay: dailyFee,
+        datasetOwnerPercentage: ownerPercentage,
+        tags,
+        weights,
+        extraFeePerPendingFragment: taskArgs.extraFee,
+      });
+
+      console.log('Data set id:', result.datasetId.toString());
+      console.log('FragmentNFT:', result.fragmentNFT);
+      console.log('SubscriptionManager:', result.subscriptionManager);
+      console.log('DistributionManager:', result.distributionManager);
+      console.log('VerifierManager:', result.verifierManager);
+    })
+  );
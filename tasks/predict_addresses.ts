@@ -0,0 +1,43 @@
+import { task } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { deployment, network as networkUtils } from '../utils';
+import { withNuklaiErrors } from './utils';
+
+interface TaskArgs {
+  salt?: string;
+  json: boolean;
+}
+
+task(
+  'predict-addresses',
+  'Predicts the addresses of the protocol contracts deployed deterministically with a salt'
+)
+  .addOptionalParam('salt', 'Salt of the deployment, defaults to DEPLOYMENT_SALT')
+  .addFlag('json', 'Prints the addresses as JSON')
+  .setAction(
+    withNuklaiErrors(async (taskArgs: TaskArgs, hre: HardhatRuntimeEnvironment) => {
+      const salt = networkUtils.getDeploymentSalt(taskArgs.salt ?? process.env.DEPLOYMENT_SALT);
+      if (!salt) throw new Error('No salt provided, set DEPLOYMENT_SALT or --salt');
+
+      const { dtAdmin } = await hre.getNamedAccounts();
+      const predicted = await deployment.predictDeterministicAddresses(hre, dtAdmin, salt);
+
+      if (taskArgs.json) {
+        console.log(JSON.stringify(predicted, null, 2));
+        return;
+      }
+
+      const rows = [];
+      for (const [name, { address, implementation }] of Object.entries(predicted)) {
+        rows.push({
+          contract: name,
+          address,
+          implementation: implementation ?? '',
+          deployed: (await ethers.provider.getCode(address)) !== '0x',
+        });
+      }
+
+      console.log(`Addresses of the contracts deployed by ${dtAdmin} with salt ${salt}`);
+      console.table(rows);
+    })
+  );
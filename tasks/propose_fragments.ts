@@ -0,0 +1,177 @@
+import { Addressable, ZeroAddress, getAddress, isAddress } from 'ethers';
+import { readFileSync, writeFileSync } from 'fs';
+import { task, types } from 'hardhat/config';
+import { encoding, signature } from '../utils';
+import { SIGNER_SOURCES, resolveSigner } from './signers';
+import { withNuklaiErrors } from './utils';
+
+interface TaskArgs {
+  signer: string;
+  proposalSigner: string;
+  contractAddress: Addressable;
+  datasetId: string;
+  csv: string;
+  batchSize: number;
+  results?: string;
+}
+
+interface ContributionRow {
+  /** Line of the row in the CSV file */
+  row: number;
+  contributor: string;
+  tag: string;
+}
+
+const unquote = (value: string) => value.trim().replace(/^"(.*)"$/, '$1');
+
+/**
+ * Reads the `contributor,tag` rows of a CSV file, skipping empty lines and an optional header
+ */
+const readContributions = (path: string): ContributionRow[] => {
+  const rows: ContributionRow[] = [];
+
+  readFileSync(path, 'utf8')
+    .split(/\r?\n/)
+    .forEach((line, i) => {
+      if (!line.trim()) return;
+
+      const separator = line.indexOf(',');
+      const contributor = unquote(separator > 0 ? line.slice(0, separator) : line);
+      const tag = unquote(separator > 0 ? line.slice(separator + 1) : '');
+
+      if (i === 0 && !isAddress(contributor)) return;
+      if (!isAddress(contributor) || getAddress(contributor) === ZeroAddress)
+        throw new Error(`Invalid contributor ${contributor} on row ${i + 1}`);
+      if (!tag) throw new Error(`No tag on row ${i + 1}`);
+
+      rows.push({ row: i + 1, contributor: getAddress(contributor), tag });
+    });
+
+  return rows;
+};
+
+// Percentage of the block gas limit a single batch may use
+const MAX_BATCH_GAS_PERCENTAGE = 80n;
+
+task('propose-fragments', 'Proposes the contributions of a CSV file to a data set in batches')
+  .addParam('signer', `Transaction sender (${SIGNER_SOURCES})`)
+  .addParam(
+    'proposalSigner',
+    `Signer with SIGNER_ROLE signing the proposal batches (${SIGNER_SOURCES})`
+  )
+  .addParam('contractAddress', 'Address of the DatasetNFT contract')
+  .addParam('datasetId', 'Id of the data set')
+  .addParam('csv', 'Path of the CSV file of contributor,tag rows')
+  .addOptionalParam('batchSize', 'Maximum number of fragments proposed per batch', 100, types.int)
+  .addOptionalParam('results', 'Path of the results file, defaults to <csv>.results.json')
+  .setAction(
+    withNuklaiErrors(async (taskArgs: TaskArgs) => {
+      const { NuklaiClient, decodeNuklaiError } = await import('../sdk');
+
+      const rows = readContributions(taskArgs.csv);
+      const resultsPath = taskArgs.results ?? `${taskArgs.csv}.results.json`;
+
+      const wallet = await resolveSigner(taskArgs.signer);
+      const proposalSigner = await resolveSigner(taskArgs.proposalSigner);
+
+      const client = new NuklaiClient(taskArgs.contractAddress.toString(), wallet);
+      const dataset = client.dataset;
+      const datasetId = BigInt(taskArgs.datasetId);
+
+      if (!(await dataset.isSigner(await proposalSigner.getAddress())))
+        throw new Error('Proposal signer has no SIGNER_ROLE');
+
+      const { fragmentNFT } = await client.getDatasetContracts(datasetId);
+      const fragmentAddress = await fragmentNFT.getAddress();
+      const eip712 = await dataset.eip712SignaturesEnabled();
+      const extraFee = (await dataset.datasetIdToPendingFragmentExtraFeeEnabled(datasetId))
+        ? await dataset.extraFeePerPendingFragment()
+        : 0n;
+
+      const { chainId } = await ethers.provider.getNetwork();
+      const { gasLimit } = (await ethers.provider.getBlock('latest'))!;
+      const maxBatchGas = (gasLimit * MAX_BATCH_GAS_PERCENTAGE) / 100n;
+
+      const results: (ContributionRow & { fragmentId: string; transactionHash: string })[] = [];
+      let batchSize = taskArgs.batchSize;
+
+      for (let next = 0; next < rows.length; ) {
+        const batch = rows.slice(next, next + batchSize);
+        const owners = batch.map(({ contributor }) => contributor);
+        const tags = batch.map(({ tag }) => tag);
+        const encodedTags = tags.map(encoding.encodeTag);
+
+        const fromId = (await fragmentNFT.lastFragmentPendingId()) + 1n;
+        const toId = fromId + BigInt(batch.length) - 1n;
+
+        const proposeManyMessage = eip712
+          ? signature.getDatasetFragmentProposeBatchTypedData(
+              chainId,
+              fragmentAddress,
+              datasetId,
+              fromId,
+              toId,
+              owners,
+              encodedTags
+            )
+          : signature.getDatasetFragmentProposeBatchMessage(
+              chainId,
+              await dataset.getAddress(),
+              datasetId,
+              fromId,
+              toId,
+              owners,
+              encodedTags
+            );
+        const proposeManySignature = await signature.signMessage(
+          proposalSigner,
+          proposeManyMessage
+        );
+
+        // Halves the batch while it does not fit in a block, running out of gas being the only undecodable error
+        if (batch.length > 1) {
+          const gas = await dataset
+            .connect(wallet)
+            .proposeManyFragments.estimateGas(
+              datasetId,
+              owners,
+              encodedTags,
+              proposeManySignature,
+              {
+                value: extraFee * BigInt(batch.length),
+              }
+            )
+            .catch((error) => {
+              if (decodeNuklaiError(error)) throw error;
+            });
+
+          if (gas === undefined || gas > maxBatchGas) {
+            batchSize = Math.ceil(batch.length / 2);
+            continue;
+          }
+        }
+
+        console.log(`Proposing rows ${batch[0].row} to ${batch[batch.length - 1].row}`);
+        const { fragmentIds, receipt } = await client.proposeManyFragments({
+          datasetId,
+          owners,
+          tags,
+          signature: proposeManySignature,
+        });
+
+        batch.forEach((row, i) =>
+          results.push({
+            ...row,
+            fragmentId: fragmentIds[i].toString(),
+            transactionHash: receipt.hash,
+          })
+        );
+        writeFileSync(resultsPath, JSON.stringify(results, null, 2) + '\n');
+
+        console.log(`Fragments ${fromId} to ${toId} pending`);
+        next += batch.length;
+      }
+
+      console.log(results.length, 'fragments proposed, results written to', resultsPath);
+    })
+  );
@@ -0,0 +1,225 @@
+import { DatasetNFT } from '../typechain-types';
+import { BytesLike, getAddress, isAddress, parseUnits } from 'ethers';
+import { readFileSync } from 'fs';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { constants } from '../utils';
+
+/**
+ * Declarative admin settings of the protocol for a network, read from `config/<network>.json`.
+ * Addresses can be given as hardhat-deploy deployment names (e.g. `ERC20SubscriptionManager`).
+ * Settings left out of the file are not reconciled.
+ */
+export interface ProtocolConfig {
+  /** DatasetNFT address, defaults to the `DatasetNFT` deployment */
+  datasetNFT?: string;
+  /**
+   * Block the DatasetNFT was deployed at, from which role members are looked up,
+   * defaults to the block of the `datasetNFT` deployment
+   */
+  deploymentBlock?: number;
+  approvedTokens?: string[];
+  whitelistedManagers?: string[];
+  signers?: string[];
+  /** Percentages by `DeployerFeeModel` name, 1 being 100% (`{ "DEPLOYER_STORAGE": "0.35" }`) */
+  deployerFeeModelPercentages?: Partial<Record<keyof typeof constants.DeployerFeeModel, string>>;
+  deployerFeeBeneficiary?: string;
+  /** Native currency amount charged per pending fragment (`"0.05"`) */
+  extraFeePerPendingFragment?: string;
+  baseURI?: string;
+  trustedForwarder?: string;
+  fragmentImplementation?: string;
+}
+
+export interface ReconcileTransaction {
+  description: string;
+  to: string;
+  data: string;
+}
+
+const ROLES = {
+  approvedTokens: constants.APPROVED_TOKEN_ROLE,
+  whitelistedManagers: constants.WHITELISTED_MANAGER_ROLE,
+  signers: constants.SIGNER_ROLE,
+} as const;
+
+export function readProtocolConfig(path: string): ProtocolConfig {
+  return JSON.parse(readFileSync(path, 'utf8'));
+}
+
+export async function resolveConfigAddress(
+  hre: HardhatRuntimeEnvironment,
+  value: string
+): Promise<string> {
+  if (isAddress(value)) return getAddress(value);
+
+  const deployment = await hre.deployments.getOrNull(value);
+  if (!deployment) throw new Error(`${value} is neither an address nor a deployment`);
+
+  return getAddress(deployment.address);
+}
+
+/**
+ * Returns the block from which the role members of the DatasetNFT of `config` are looked up
+ */
+export async function getDeploymentBlock(
+  hre: HardhatRuntimeEnvironment,
+  config: ProtocolConfig
+): Promise<number> {
+  if (config.deploymentBlock !== undefined) return config.deploymentBlock;
+
+  const deployment = await hre.deployments.getOrNull(config.datasetNFT ?? 'DatasetNFT');
+  if (deployment?.receipt === undefined)
+    throw new Error('No DatasetNFT deployment to look up role members from, set deploymentBlock');
+
+  return deployment.receipt.blockNumber;
+}
+
+/**
+ * Replays the `RoleGranted` and `RoleRevoked` events of `role` to list its current members,
+ * AccessControl not being enumerable
+ */
+export async function getRoleMembers(
+  hre: HardhatRuntimeEnvironment,
+  dataset: DatasetNFT,
+  role: BytesLike,
+  fromBlock: number,
+  batchSize = 2000
+): Promise<string[]> {
+  const toBlock = await hre.ethers.provider.getBlockNumber();
+  const events = [];
+
+  for (let from = fromBlock; from <= toBlock; from += batchSize) {
+    const to = Math.min(from + batchSize - 1, toBlock);
+    events.push(
+      ...(await dataset.queryFilter(dataset.filters.RoleGranted(role), from, to)),
+      ...(await dataset.queryFilter(dataset.filters.RoleRevoked(role), from, to))
+    );
+  }
+
+  events.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+  const members = new Set<string>();
+  for (const event of events) {
+    if (event.eventName === 'RoleGranted') members.add(getAddress(event.args.account));
+    else members.delete(getAddress(event.args.account));
+  }
+
+  return [...members];
+}
+
+/**
+ * Diffs `config` against the on-chain state of `dataset`, returning the transactions
+ * needed for the DatasetNFT admin to converge to it
+ */
+export async function planReconcile(
+  hre: HardhatRuntimeEnvironment,
+  dataset: DatasetNFT,
+  config: ProtocolConfig
+): Promise<ReconcileTransaction[]> {
+  const to = await dataset.getAddress();
+  const transactions: ReconcileTransaction[] = [];
+
+  const add = (description: string, data: string) => transactions.push({ description, to, data });
+
+  let deploymentBlock: number | undefined;
+
+  for (const [key, role] of Object.entries(ROLES)) {
+    const entries = config[key as keyof typeof ROLES];
+    if (!entries) continue;
+
+    deploymentBlock ??= await getDeploymentBlock(hre, config);
+
+    const expected = await Promise.all(entries.map((entry) => resolveConfigAddress(hre, entry)));
+    const current = await getRoleMembers(hre, dataset, role, deploymentBlock);
+
+    for (const account of expected) {
+      if (await dataset.hasRole(role, account)) continue;
+      add(
+        `${key}: grant ${account}`,
+        dataset.interface.encodeFunctionData('grantRole', [role, account])
+      );
+    }
+    for (const account of current) {
+      if (expected.includes(account) || !(await dataset.hasRole(role, account))) continue;
+      add(
+        `${key}: revoke ${account}`,
+        dataset.interface.encodeFunctionData('revokeRole', [role, account])
+      );
+    }
+  }
+
+  if (config.deployerFeeBeneficiary) {
+    const beneficiary = await resolveConfigAddress(hre, config.deployerFeeBeneficiary);
+    if (getAddress(await dataset.deployerFeeBeneficiary()) !== beneficiary)
+      add(
+        `deployerFeeBeneficiary: ${beneficiary}`,
+        dataset.interface.encodeFunctionData('setDeployerFeeBeneficiary', [beneficiary])
+      );
+  }
+
+  if (config.deployerFeeModelPercentages) {
+    const models: number[] = [];
+    const percentages: bigint[] = [];
+
+    for (const [name, value] of Object.entries(config.deployerFeeModelPercentages)) {
+      const model = constants.DeployerFeeModel[name as keyof typeof constants.DeployerFeeModel];
+      if (model === undefined) throw new Error(`Unknown deployer fee model ${name}`);
+
+      const percentage = parseUnits(value, 18);
+      if (model === constants.DeployerFeeModel.NO_FEE) {
+        if (percentage !== 0n) throw new Error('NO_FEE deployer fee model percentage must be 0');
+        continue;
+      }
+      if ((await dataset.deployerFeeModelPercentage(model)) === percentage) continue;
+
+      models.push(model);
+      percentages.push(percentage);
+    }
+
+    if (models.length > 0)
+      add(
+        `deployerFeeModelPercentages: ${models
+          .map((model, i) => `${constants.DeployerFeeModel[model]} ${percentages[i]}`)
+          .join(', ')}`,
+        dataset.interface.encodeFunctionData('setDeployerFeeModelPercentages', [
+          models,
+          percentages,
+        ])
+      );
+  }
+
+  if (config.extraFeePerPendingFragment !== undefined) {
+    const fee = parseUnits(config.extraFeePerPendingFragment, 18);
+    if ((await dataset.extraFeePerPendingFragment()) !== fee)
+      add(
+        `extraFeePerPendingFragment: ${fee}`,
+        dataset.interface.encodeFunctionData('setExtraFeePerPendingFragment', [fee])
+      );
+  }
+
+  if (config.baseURI !== undefined && (await dataset.baseURI()) !== config.baseURI)
+    add(
+      `baseURI: ${config.baseURI}`,
+      dataset.interface.encodeFunctionData('setBaseURI', [config.baseURI])
+    );
+
+  if (config.trustedForwarder) {
+    const forwarder = await resolveConfigAddress(hre, config.trustedForwarder);
+    if (!(await dataset.isTrustedForwarder(forwarder)))
+      add(
+        `trustedForwarder: ${forwarder}`,
+        dataset.interface.encodeFunctionData('setTrustedForwarder', [forwarder])
+      );
+  }
+
+  if (config.fragmentImplementation) {
+    const implementation = await resolveConfigAddress(hre, config.fragmentImplementation);
+    if (getAddress(await dataset.fragmentImplementation()) !== implementation)
+      add(
+        `fragmentImplementation: ${implementation}`,
+        dataset.interface.encodeFunctionData('setFragmentImplementation', [implementation])
+      );
+  }
+
+  return transactions;
+}
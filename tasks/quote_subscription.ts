@@ -0,0 +1,68 @@
+import { Addressable, formatUnits } from 'ethers';
+import { task, types } from 'hardhat/config';
+import { getFeeToken, withNuklaiErrors } from './utils';
+
+interface TaskArgs {
+  contractAddress: Addressable;
+  datasetId: string;
+  days: number;
+  consumers: number;
+  subscriptionId?: string;
+}
+
+task('quote-subscription', 'Quotes the fee of a new subscription or of a subscription extension')
+  .addParam('contractAddress', 'Address of the DatasetNFT contract')
+  .addParam('datasetId', 'Id of the data set')
+  .addOptionalParam('days', 'Duration, or extra duration, in days', 0, types.int)
+  .addOptionalParam('consumers', 'Count of consumers, or of extra consumers', 0, types.int)
+  .addOptionalParam('subscriptionId', 'Quotes the extension of an existing subscription')
+  .setAction(
+    withNuklaiErrors(async (taskArgs: TaskArgs) => {
+      if (!taskArgs.subscriptionId && (taskArgs.days <= 0 || taskArgs.consumers <= 0))
+        throw new Error('A new subscription needs positive days and consumers');
+
+      const { NuklaiClient } = await import('../sdk');
+
+      const client = new NuklaiClient(taskArgs.contractAddress.toString(), ethers.provider);
+      const datasetId = BigInt(taskArgs.datasetId);
+      const { subscriptionManager } = await client.getDatasetContracts(datasetId);
+
+      const feeToken = await getFeeToken(subscriptionManager);
+      const decimals = await feeToken.decimals();
+      const symbol = await feeToken.symbol();
+      const format = (amount: bigint) => `${formatUnits(amount, decimals)} ${symbol}`;
+
+      if (!taskArgs.subscriptionId) {
+        const [, fee] = await subscriptionManager.subscriptionFee(
+          datasetId,
+          taskArgs.days,
+          taskArgs.consumers
+        );
+        console.log(
+          `Subscription of ${taskArgs.consumers} consumers for ${taskArgs.days} days:`,
+          format(fee)
+        );
+        return;
+      }
+
+      const subscriptionId = BigInt(taskArgs.subscriptionId);
+      if (taskArgs.consumers > 0) {
+        const fee = await subscriptionManager.extraConsumerFee(subscriptionId, taskArgs.consumers);
+        console.log(
+          `${taskArgs.consumers} extra consumers for the remaining subscription duration:`,
+          format(fee)
+        );
+      }
+
+      const extraFee = await client.quoteExtendSubscription({
+        datasetId,
+        subscriptionId,
+        extraDurationInDays: taskArgs.days,
+        extraConsumers: taskArgs.consumers,
+      });
+      console.log(
+        `Extension of ${taskArgs.days} days and ${taskArgs.consumers} consumers:`,
+        format(extraFee)
+      );
+    })
+  );
@@ -0,0 +1,81 @@
+import { DatasetNFT } from '../typechain-types';
+import { task } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { planReconcile, readProtocolConfig, resolveConfigAddress } from './protocol_config';
+import { EXPORT_DESCRIPTION, SIGNER_SOURCES, resolveSigner } from './signers';
+import { withNuklaiErrors } from './utils';
+
+interface TaskArgs {
+  configFile?: string;
+  signer?: string;
+  export?: string;
+  execute: boolean;
+}
+
+task('reconcile', 'Diffs the protocol configuration of the network against the on-chain state')
+  .addOptionalParam(
+    'configFile',
+    'Path of the configuration file, defaults to config/<network>.json'
+  )
+  .addOptionalParam('signer', `Signer with ADMIN_ROLE (${SIGNER_SOURCES})`)
+  .addOptionalParam('export', EXPORT_DESCRIPTION.replace('the transaction', 'the transactions'))
+  .addFlag('execute', 'Sends the transactions needed to converge to the configuration')
+  .setAction(
+    withNuklaiErrors(async (taskArgs: TaskArgs, hre: HardhatRuntimeEnvironment) => {
+      if ((taskArgs.execute || taskArgs.export) && !taskArgs.signer)
+        throw new Error('No signer provided');
+      if (taskArgs.execute && taskArgs.export)
+        throw new Error('Either execute or export the transactions');
+
+      const config = readProtocolConfig(taskArgs.configFile ?? `config/${network.name}.json`);
+      const datasetAddress = await resolveConfigAddress(hre, config.datasetNFT ?? 'DatasetNFT');
+
+      const dataset = (await ethers.getContractAt(
+        'DatasetNFT',
+        datasetAddress
+      )) as unknown as DatasetNFT;
+
+      const transactions = await planReconcile(hre, dataset, config);
+
+      if (transactions.length === 0) {
+        console.log('DatasetNFT', datasetAddress, 'matches the configuration');
+        return;
+      }
+
+      console.log(
+        transactions.length,
+        'transactions needed to converge DatasetNFT',
+        datasetAddress
+      );
+      transactions.forEach(({ description, data }, i) =>
+        console.log(`${i + 1}. ${description}\n   ${data}`)
+      );
+
+      if (taskArgs.export) {
+        const { appendSafeTransaction } = await import('./safe');
+
+        const safe = await (await resolveSigner(taskArgs.signer!)).getAddress();
+        const { chainId } = await ethers.provider.getNetwork();
+
+        for (const { to, data } of transactions)
+          await appendSafeTransaction(taskArgs.export, chainId.toString(), safe, {
+            to,
+            value: '0',
+            data,
+          });
+
+        console.log('Transactions exported to', taskArgs.export);
+      }
+
+      if (taskArgs.execute) {
+        const wallet = await resolveSigner(taskArgs.signer!);
+
+        for (const { description, to, data } of transactions) {
+          console.log('Sending', description);
+          await (await wallet.sendTransaction({ to, data })).wait();
+        }
+
+        console.log('DatasetNFT', datasetAddress, 'reconciled');
+      }
+    })
+  );
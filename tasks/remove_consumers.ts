@@ -0,0 +1,39 @@
+import { Addressable } from 'ethers';
+import { task } from 'hardhat/config';
+import { SIGNER_SOURCES, resolveSigner } from './signers';
+import { parseAddresses, withNuklaiErrors } from './utils';
+
+interface TaskArgs {
+  signer: string;
+  contractAddress: Addressable;
+  datasetId: string;
+  subscriptionId: string;
+  consumers: string;
+}
+
+task('remove-consumers', 'Removes consumers from a subscription')
+  .addParam('signer', `Subscription owner (${SIGNER_SOURCES})`)
+  .addParam('contractAddress', 'Address of the DatasetNFT contract')
+  .addParam('datasetId', 'Id of the data set')
+  .addParam('subscriptionId', 'Id of the subscription')
+  .addParam('consumers', 'Consumer addresses separated by commas (0x1,0x2)')
+  .setAction(
+    withNuklaiErrors(async (taskArgs: TaskArgs) => {
+      const { NuklaiClient } = await import('../sdk');
+
+      const wallet = await resolveSigner(taskArgs.signer);
+      const client = new NuklaiClient(taskArgs.contractAddress.toString(), wallet);
+
+      const consumers = parseAddresses(taskArgs.consumers);
+      const receipt = await client.removeConsumers({
+        datasetId: taskArgs.datasetId,
+        subscriptionId: taskArgs.subscriptionId,
+        consumers,
+      });
+
+      console.log(
+        `${consumers.length} consumers removed from subscription ${taskArgs.subscriptionId}`
+      );
+      console.log('Transaction hash', receipt.hash);
+    })
+  );
@@ -0,0 +1,46 @@
+import { Addressable } from 'ethers';
+import { task } from 'hardhat/config';
+import { SIGNER_SOURCES, resolveSigner } from './signers';
+import { parseAddresses, withNuklaiErrors } from './utils';
+
+interface TaskArgs {
+  signer: string;
+  contractAddress: Addressable;
+  datasetId: string;
+  subscriptionId: string;
+  oldConsumers: string;
+  newConsumers: string;
+}
+
+task('replace-consumers', 'Replaces consumers of a subscription with the same count of new ones')
+  .addParam('signer', `Subscription owner (${SIGNER_SOURCES})`)
+  .addParam('contractAddress', 'Address of the DatasetNFT contract')
+  .addParam('datasetId', 'Id of the data set')
+  .addParam('subscriptionId', 'Id of the subscription')
+  .addParam('oldConsumers', 'Consumer addresses to replace, separated by commas (0x1,0x2)')
+  .addParam('newConsumers', 'New consumer addresses, in the same order (0x3,0x4)')
+  .setAction(
+    withNuklaiErrors(async (taskArgs: TaskArgs) => {
+      const oldConsumers = parseAddresses(taskArgs.oldConsumers);
+      const newConsumers = parseAddresses(taskArgs.newConsumers);
+      if (oldConsumers.length !== newConsumers.length)
+        throw new Error('Old and new consumers counts differ');
+
+      const { NuklaiClient } = await import('../sdk');
+
+      const wallet = await resolveSigner(taskArgs.signer);
+      const client = new NuklaiClient(taskArgs.contractAddress.toString(), wallet);
+
+      const receipt = await client.replaceConsumers({
+        datasetId: taskArgs.datasetId,
+        subscriptionId: taskArgs.subscriptionId,
+        oldConsumers,
+        newConsumers,
+      });
+
+      console.log(
+        `${newConsumers.length} consumers replaced in subscription ${taskArgs.subscriptionId}`
+      );
+      console.log('Transaction hash', receipt.hash);
+    })
+  );
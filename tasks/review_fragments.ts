@@ -0,0 +1,115 @@
+import { Addressable, ZeroAddress, getAddress } from 'ethers';
+import { task, types } from 'hardhat/config';
+import { encoding } from '../utils';
+import { SIGNER_SOURCES, resolveSigner } from './signers';
+import { withNuklaiErrors } from './utils';
+
+interface TaskArgs {
+  signer?: string;
+  contractAddress: Addressable;
+  datasetId: string;
+  tags?: string;
+  ids?: string;
+  tag?: string;
+  contributor?: string;
+  accept: boolean;
+  reject: boolean;
+  dryRun: boolean;
+  fromBlock: number;
+}
+
+interface PendingFragment {
+  id: bigint;
+  contributor: string;
+  tag: string;
+}
+
+task('review-fragments', 'Lists the pending fragments of a data set and accepts or rejects them')
+  .addOptionalParam('signer', `Data set owner (${SIGNER_SOURCES})`)
+  .addParam('contractAddress', 'Address of the DatasetNFT contract')
+  .addParam('datasetId', 'Id of the data set')
+  .addOptionalParam('tags', 'Contribution tags to decode, separated by commas (tag1,tag2)')
+  .addOptionalParam('ids', 'Pending fragment ids to resolve, separated by commas (1,2)')
+  .addOptionalParam('tag', 'Selects the pending fragments of a contribution tag')
+  .addOptionalParam('contributor', 'Selects the pending fragments of a contributor')
+  .addFlag('accept', 'Accepts the selected fragments')
+  .addFlag('reject', 'Rejects the selected fragments')
+  .addFlag('dryRun', 'Previews the fragments that would be resolved')
+  .addOptionalParam('fromBlock', 'Block the data set was minted at', 0, types.int)
+  .setAction(
+    withNuklaiErrors(async (taskArgs: TaskArgs) => {
+      if (taskArgs.accept && taskArgs.reject) throw new Error('Either accept or reject fragments');
+
+      const resolving = taskArgs.accept || taskArgs.reject;
+      if (resolving && !taskArgs.ids && !taskArgs.tag && !taskArgs.contributor)
+        throw new Error('No ids, tag or contributor provided');
+      if (resolving && !taskArgs.dryRun && !taskArgs.signer) throw new Error('No signer provided');
+
+      const { NuklaiClient } = await import('../sdk');
+
+      const runner =
+        resolving && !taskArgs.dryRun ? await resolveSigner(taskArgs.signer!) : ethers.provider;
+      const client = new NuklaiClient(taskArgs.contractAddress.toString(), runner);
+      const datasetId = BigInt(taskArgs.datasetId);
+      const { fragmentNFT } = await client.getDatasetContracts(datasetId);
+
+      // Tags are stored as hashes, so names are only known for the ones given by the caller
+      const tagNames: Record<string, string> = {};
+      for (const tag of [...(taskArgs.tags?.split(',') ?? []), taskArgs.tag ?? '']) {
+        if (tag.trim()) tagNames[encoding.encodeTag(tag.trim())] = tag.trim();
+      }
+
+      const pending: PendingFragment[] = [];
+      for (const event of await fragmentNFT.queryFilter(
+        fragmentNFT.filters.FragmentPending(),
+        taskArgs.fromBlock
+      )) {
+        const contributor = await fragmentNFT.pendingFragmentOwners(event.args.id);
+        if (contributor === ZeroAddress) continue;
+
+        pending.push({
+          id: event.args.id,
+          contributor,
+          tag: tagNames[event.args.tag] ?? event.args.tag,
+        });
+      }
+
+      const ids = taskArgs.ids?.split(',').map((id) => BigInt(id.trim()));
+      for (const id of ids ?? []) {
+        if (!pending.some((fragment) => fragment.id === id))
+          throw new Error(`Fragment ${id} is not pending`);
+      }
+
+      const contributor = taskArgs.contributor && getAddress(taskArgs.contributor);
+      const selected = pending.filter(
+        (fragment) =>
+          (!ids || ids.includes(fragment.id)) &&
+          (!taskArgs.tag || fragment.tag === taskArgs.tag.trim()) &&
+          (!contributor || fragment.contributor === contributor)
+      );
+
+      console.log(`${selected.length} of ${pending.length} pending fragments selected`);
+      console.table(
+        selected.map(({ id, contributor, tag }) => ({ id: id.toString(), contributor, tag }))
+      );
+
+      if (!resolving || selected.length === 0) return;
+
+      const action = taskArgs.accept ? 'Accepting' : 'Rejecting';
+      if (taskArgs.dryRun) {
+        console.log(`${action} ${selected.length} fragments skipped (dry run)`);
+        return;
+      }
+
+      console.log(`${action} ${selected.length} fragments...`);
+      const { receipts } = await client.resolveManyFragments({
+        datasetId,
+        fragmentIds: selected.map(({ id }) => id),
+        accept: taskArgs.accept,
+      });
+
+      for (const [verifier, receipt] of receipts) {
+        console.log('Resolved through verifier', verifier, 'in transaction', receipt.hash);
+      }
+    })
+  );
@@ -0,0 +1,156 @@
+import { DatasetNFT } from '../typechain-types';
+import { Addressable, Interface, ZeroAddress, toBeHex, zeroPadValue } from 'ethers';
+import { task, types } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { constants } from '../utils';
+import { getRoleMembers } from './protocol_config';
+import { withNuklaiErrors } from './utils';
+
+interface TaskArgs {
+  contractAddress: Addressable;
+  fromBlock: number;
+  json: boolean;
+  fail: boolean;
+}
+
+type FindingIssue = 'ADMIN_EOA' | 'MANAGER_INTERFACE_INVALID' | 'TOKEN_NOT_ERC20';
+
+interface RoleHolder {
+  account: string;
+  isContract: boolean;
+}
+
+interface Finding {
+  role: string;
+  account: string;
+  issue: FindingIssue;
+}
+
+interface RolesAuditReport {
+  datasetNFT: string;
+  blockNumber: number;
+  roles: Record<string, RoleHolder[]>;
+  findings: Finding[];
+}
+
+/**
+ * ERC165 id of the functions declared by `iface` itself, as `type(I).interfaceId` in Solidity
+ */
+const interfaceId = (iface: Interface, ...parents: Interface[]): string => {
+  let id = 0n;
+  iface.forEachFunction(({ selector }) => {
+    if (!parents.some((parent) => parent.getFunction(selector))) id ^= BigInt(selector);
+  });
+  return zeroPadValue(toBeHex(id), 4);
+};
+
+task('roles-audit', 'Lists the holders of every DatasetNFT role and flags suspicious ones')
+  .addParam('contractAddress', 'Address of the DatasetNFT contract')
+  .addOptionalParam('fromBlock', 'Block the DatasetNFT was deployed at', 0, types.int)
+  .addFlag('json', 'Prints the report as JSON')
+  .addFlag('fail', 'Exits with code 1 if any finding is reported')
+  .setAction(
+    withNuklaiErrors(async (taskArgs: TaskArgs, hre: HardhatRuntimeEnvironment) => {
+      const {
+        IDatasetLinkInitializable__factory,
+        IDistributionManager__factory,
+        IERC165Upgradeable__factory,
+        IERC20__factory,
+        IERC721EnumerableUpgradeable__factory,
+        ISubscriptionManager__factory,
+        IVerifierManager__factory,
+      } = await import('../typechain-types');
+
+      const dataset = (await ethers.getContractAt(
+        'DatasetNFT',
+        taskArgs.contractAddress
+      )) as unknown as DatasetNFT;
+
+      const blockNumber = await ethers.provider.getBlockNumber();
+
+      const roles = {
+        DEFAULT_ADMIN_ROLE: ethers.ZeroHash,
+        SIGNER_ROLE: constants.SIGNER_ROLE,
+        APPROVED_TOKEN_ROLE: constants.APPROVED_TOKEN_ROLE,
+        WHITELISTED_MANAGER_ROLE: constants.WHITELISTED_MANAGER_ROLE,
+      };
+
+      const linkInterface = IDatasetLinkInitializable__factory.createInterface();
+      const erc165Interface = IERC165Upgradeable__factory.createInterface();
+      const managerInterfaceIds = [
+        interfaceId(
+          IDistributionManager__factory.createInterface(),
+          linkInterface,
+          erc165Interface
+        ),
+        interfaceId(
+          ISubscriptionManager__factory.createInterface(),
+          linkInterface,
+          IERC721EnumerableUpgradeable__factory.createInterface()
+        ),
+        interfaceId(IVerifierManager__factory.createInterface(), linkInterface, erc165Interface),
+      ];
+
+      const supportsManagerInterface = async (account: string) => {
+        const manager = IERC165Upgradeable__factory.connect(account, ethers.provider);
+        for (const id of managerInterfaceIds) {
+          if (await manager.supportsInterface(id).catch(() => false)) return true;
+        }
+        return false;
+      };
+
+      const isERC20 = async (account: string) => {
+        const token = IERC20__factory.connect(account, ethers.provider);
+        try {
+          await token.totalSupply();
+          await token.balanceOf(ZeroAddress);
+          await token.allowance(ZeroAddress, ZeroAddress);
+          return true;
+        } catch {
+          return false;
+        }
+      };
+
+      const report: RolesAuditReport = {
+        datasetNFT: await dataset.getAddress(),
+        blockNumber,
+        roles: {},
+        findings: [],
+      };
+
+      for (const [name, role] of Object.entries(roles)) {
+        const members = await getRoleMembers(hre, dataset, role, taskArgs.fromBlock);
+        report.roles[name] = [];
+
+        for (const account of members) {
+          const isContract = (await ethers.provider.getCode(account)) !== '0x';
+          report.roles[name].push({ account, isContract });
+
+          if (name === 'DEFAULT_ADMIN_ROLE' && !isContract)
+            report.findings.push({ role: name, account, issue: 'ADMIN_EOA' });
+          if (name === 'WHITELISTED_MANAGER_ROLE' && !(await supportsManagerInterface(account)))
+            report.findings.push({ role: name, account, issue: 'MANAGER_INTERFACE_INVALID' });
+          if (name === 'APPROVED_TOKEN_ROLE' && !(isContract && (await isERC20(account))))
+            report.findings.push({ role: name, account, issue: 'TOKEN_NOT_ERC20' });
+        }
+      }
+
+      if (taskArgs.json) {
+        console.log(JSON.stringify(report, null, 2));
+      } else {
+        console.log('DatasetNFT', report.datasetNFT, 'roles at block', blockNumber);
+        for (const [name, holders] of Object.entries(report.roles)) {
+          console.log(`\n${name} (${holders.length})`);
+          holders.forEach(({ account, isContract }) =>
+            console.log(' ', account, isContract ? 'contract' : 'EOA')
+          );
+        }
+        console.log(`\n${report.findings.length} findings`);
+        report.findings.forEach(({ role, account, issue }) =>
+          console.log(' ', issue, role, account)
+        );
+      }
+
+      if (taskArgs.fail && report.findings.length > 0) process.exitCode = 1;
+    })
+  );
@@ -0,0 +1,155 @@
+import {
+  FunctionFragment,
+  Interface,
+  JsonFragment,
+  JsonFragmentType,
+  Provider,
+  TransactionRequest,
+} from 'ethers';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { UnsignedSigner, UnsignedTransactionError } from './signers';
+
+interface SafeContractMethod {
+  inputs: readonly JsonFragmentType[];
+  name: string;
+  payable: boolean;
+}
+
+interface SafeTransaction {
+  to: string;
+  value: string;
+  data: string;
+  contractMethod: SafeContractMethod | null;
+  contractInputsValues: Record<string, string> | null;
+}
+
+/**
+ * Transactions batch of the Safe Transaction Builder app
+ */
+interface SafeBatch {
+  version: string;
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+  };
+  transactions: SafeTransaction[];
+}
+
+const toInputValue = (value: unknown): unknown =>
+  Array.isArray(value) ? value.map(toInputValue) : String(value);
+
+// Array and tuple arguments are JSON encoded by the Transaction Builder, e.g. `["1","2"]`
+const formatInputValue = (value: unknown): string =>
+  Array.isArray(value) ? JSON.stringify(toInputValue(value)) : String(value);
+
+/**
+ * Decodes `data` against the ABIs of the Nuklai contracts, for the Transaction Builder
+ * to display the called method and its arguments
+ */
+async function decodeMethod(
+  data: string
+): Promise<Pick<SafeTransaction, 'contractMethod' | 'contractInputsValues'>> {
+  const {
+    DatasetFactory__factory,
+    DatasetNFT__factory,
+    DistributionManager__factory,
+    FragmentNFT__factory,
+    ProxyAdmin__factory,
+  } = await import('../typechain-types');
+
+  const selector = data.slice(0, 10).toLowerCase();
+
+  for (const factory of [
+    DatasetNFT__factory,
+    DatasetFactory__factory,
+    FragmentNFT__factory,
+    DistributionManager__factory,
+    ProxyAdmin__factory,
+  ]) {
+    const entry = (factory.abi as readonly JsonFragment[]).find(
+      (item) => item.type === 'function' && FunctionFragment.from(item).selector === selector
+    );
+    if (!entry) continue;
+
+    const iface: Interface = factory.createInterface();
+    const fragment = iface.getFunction(selector)!;
+    const args = iface.decodeFunctionData(fragment, data);
+
+    return {
+      contractMethod: {
+        inputs: entry.inputs ?? [],
+        name: fragment.name,
+        payable: entry.stateMutability === 'payable',
+      },
+      contractInputsValues: Object.fromEntries(
+        fragment.inputs.map((param, i) => [param.name, formatInputValue(args[i])])
+      ),
+    };
+  }
+
+  return { contractMethod: null, contractInputsValues: null };
+}
+
+/**
+ * Appends a transaction to the Safe Transaction Builder batch at `path`, creating it if missing
+ */
+export async function appendSafeTransaction(
+  path: string,
+  chainId: string,
+  safeAddress: string,
+  transaction: Pick<SafeTransaction, 'to' | 'value' | 'data'>
+): Promise<void> {
+  const batch: SafeBatch = existsSync(path)
+    ? JSON.parse(readFileSync(path, 'utf8'))
+    : {
+        version: '1.0',
+        chainId,
+        createdAt: Date.now(),
+        meta: {
+          name: 'Transactions Batch',
+          description: '',
+          txBuilderVersion: '1.16.5',
+          createdFromSafeAddress: safeAddress,
+          createdFromOwnerAddress: '',
+        },
+        transactions: [],
+      };
+
+  if (batch.chainId !== chainId) throw new Error(`Batch ${path} is for chain ${batch.chainId}`);
+  if (batch.meta.createdFromSafeAddress.toLowerCase() !== safeAddress.toLowerCase())
+    throw new Error(`Batch ${path} is for Safe ${batch.meta.createdFromSafeAddress}`);
+
+  batch.transactions.push({ ...transaction, ...(await decodeMethod(transaction.data)) });
+
+  writeFileSync(path, JSON.stringify(batch, null, 2) + '\n');
+}
+
+/**
+ * Signer of the `--export` mode, appending the first transaction of a task to a Safe
+ * Transaction Builder batch, to be reviewed and executed by the Safe at `address`
+ */
+export class ExportSigner extends UnsignedSigner {
+  constructor(address: string, provider: Provider | null, readonly path: string) {
+    super(address, provider);
+  }
+
+  connect(provider: Provider | null): ExportSigner {
+    return new ExportSigner(this.address, provider, this.path);
+  }
+
+  async sendTransaction(tx: TransactionRequest): Promise<never> {
+    const { to, data, value } = await this.populateCall(tx);
+    const { chainId } = await this.provider!.getNetwork();
+
+    const transaction = { to: to as string, value: (value ?? 0n).toString(), data: data ?? '0x' };
+    await appendSafeTransaction(this.path, chainId.toString(), this.address, transaction);
+    console.log('Transaction exported to', this.path);
+
+    throw new UnsignedTransactionError(transaction);
+  }
+}
@@ -1,32 +1,38 @@
 import { DatasetNFT } from '../typechain-types';
 import { Addressable } from 'ethers';
 import { task } from 'hardhat/config';
+import { EXPORT_DESCRIPTION, SIGNER_SOURCES, resolveSigner } from './signers';
+import { withNuklaiErrors } from './utils';
 
 interface TaskArgs {
-  pk: string;
+  signer: string;
+  export?: string;
   contractAddress: Addressable;
   datasetId: string;
   model: number;
 }
 
 task('set_dataset_fee_model', 'Sets the deployer fee model to a data set')
-  .addParam('pk', 'Signer private key with ADMIN_ROLE')
+  .addParam('signer', `Signer with ADMIN_ROLE (${SIGNER_SOURCES})`)
   .addParam('contractAddress', 'Address of the DatasetNFT contract')
   .addParam('datasetId', 'Id of the data set')
   .addParam('model', 'Deployer fee model to be set')
-  .setAction(async (taskArgs: TaskArgs) => {
-    const wallet = new ethers.Wallet(taskArgs.pk, ethers.provider);
+  .addOptionalParam('export', EXPORT_DESCRIPTION)
+  .setAction(
+    withNuklaiErrors(async (taskArgs: TaskArgs) => {
+      const wallet = await resolveSigner(taskArgs.signer, taskArgs.export);
 
-    const dataset = (await ethers.getContractAt(
-      'DatasetNFT',
-      taskArgs.contractAddress,
-      wallet
-    )) as unknown as DatasetNFT;
+      const dataset = (await ethers.getContractAt(
+        'DatasetNFT',
+        taskArgs.contractAddress,
+        wallet
+      )) as unknown as DatasetNFT;
 
-    if (!taskArgs.datasetId || !taskArgs.model) throw new Error('No datasetId or model set');
+      if (!taskArgs.datasetId || !taskArgs.model) throw new Error('No datasetId or model set');
 
-    console.log('Setting deployer fee model', taskArgs.model, 'to data set', taskArgs.datasetId);
-    await (await dataset.setDeployerFeeModel(taskArgs.datasetId, taskArgs.model)).wait();
+      console.log('Setting deployer fee model', taskArgs.model, 'to data set', taskArgs.datasetId);
+      await (await dataset.setDeployerFeeModel(taskArgs.datasetId, taskArgs.model)).wait();
 
-    console.log('Deployer fee model', taskArgs.model, 'set successfully to', taskArgs.datasetId);
-  });
+      console.log('Deployer fee model', taskArgs.model, 'set successfully to', taskArgs.datasetId);
+    })
+  );
@@ -1,32 +1,38 @@
 import { DatasetNFT } from '../typechain-types';
 import { Addressable } from 'ethers';
 import { task } from 'hardhat/config';
+import { EXPORT_DESCRIPTION, SIGNER_SOURCES, resolveSigner } from './signers';
+import { withNuklaiErrors } from './utils';
 
 interface TaskArgs {
-  pk: string;
+  signer: string;
+  export?: string;
   contractAddress: Addressable;
   beneficiary: Addressable;
 }
 
 task('set-deploy-fee-beneficiary', 'Sets the deployer fee beneficiary address')
-  .addParam('pk', 'Signer private key with ADMIN_ROLE')
+  .addParam('signer', `Signer with ADMIN_ROLE (${SIGNER_SOURCES})`)
   .addParam('contractAddress', 'Address of the DatasetNFT contract')
   .addParam('beneficiary', 'Address of the beneficiary wallet')
-  .setAction(async (taskArgs: TaskArgs) => {
-    const wallet = new ethers.Wallet(taskArgs.pk, ethers.provider);
+  .addOptionalParam('export', EXPORT_DESCRIPTION)
+  .setAction(
+    withNuklaiErrors(async (taskArgs: TaskArgs) => {
+      const wallet = await resolveSigner(taskArgs.signer, taskArgs.export);
 
-    const dataset = (await ethers.getContractAt(
-      'DatasetNFT',
-      taskArgs.contractAddress,
-      wallet
-    )) as unknown as DatasetNFT;
+      const dataset = (await ethers.getContractAt(
+        'DatasetNFT',
+        taskArgs.contractAddress,
+        wallet
+      )) as unknown as DatasetNFT;
 
-    if (!taskArgs.beneficiary) throw new Error('No beneficiary set');
+      if (!taskArgs.beneficiary) throw new Error('No beneficiary set');
 
-    console.log('Setting deployer fee beneficiary...');
-    await (await dataset.setDeployerFeeBeneficiary(taskArgs.beneficiary)).wait();
+      console.log('Setting deployer fee beneficiary...');
+      await (await dataset.setDeployerFeeBeneficiary(taskArgs.beneficiary)).wait();
 
-    const beneficiary = await dataset.deployerFeeBeneficiary();
+      const beneficiary = await dataset.deployerFeeBeneficiary();
 
-    console.log('beneficiary was set successfully', beneficiary);
-  });
+      console.log('beneficiary was set successfully', beneficiary);
+    })
+  );
@@ -2,48 +2,54 @@ import { DatasetNFT } from '../typechain-types';
 import { Addressable, parseUnits } from 'ethers';
 import { constants } from '../utils';
 import { task } from 'hardhat/config';
+import { EXPORT_DESCRIPTION, SIGNER_SOURCES, resolveSigner } from './signers';
+import { withNuklaiErrors } from './utils';
 
 interface TaskArgs {
-  pk: string;
+  signer: string;
+  export?: string;
   contractAddress: Addressable;
   models: string;
   percentages: string;
 }
 
 task('set-deploy-fee-model-percentage', 'Sets the deployer fee models percentages')
-  .addParam('pk', 'Signer private key with ADMIN_ROLE')
+  .addParam('signer', `Signer with ADMIN_ROLE (${SIGNER_SOURCES})`)
   .addParam('contractAddress', 'Address of the DatasetNFT contract')
   .addParam('models', 'Deployer fee models, separated by commas (1,2)')
   .addParam('percentages', 'Percentages of the deployer fee models, separated by commas (0.1,0.35)')
-  .setAction(async (taskArgs: TaskArgs) => {
-    const wallet = new ethers.Wallet(taskArgs.pk, ethers.provider);
+  .addOptionalParam('export', EXPORT_DESCRIPTION)
+  .setAction(
+    withNuklaiErrors(async (taskArgs: TaskArgs) => {
+      const wallet = await resolveSigner(taskArgs.signer, taskArgs.export);
 
-    const dataset = (await ethers.getContractAt(
-      'DatasetNFT',
-      taskArgs.contractAddress,
-      wallet
-    )) as unknown as DatasetNFT;
+      const dataset = (await ethers.getContractAt(
+        'DatasetNFT',
+        taskArgs.contractAddress,
+        wallet
+      )) as unknown as DatasetNFT;
 
-    const models = taskArgs.models.split(',');
-    const percentages = taskArgs.percentages
-      .split(',')
-      .map((percentage) => parseUnits(String(percentage), 18));
+      const models = taskArgs.models.split(',');
+      const percentages = taskArgs.percentages
+        .split(',')
+        .map((percentage) => parseUnits(String(percentage), 18));
 
-    if (models.length !== percentages.length) throw new Error('args length mismatch');
+      if (models.length !== percentages.length) throw new Error('args length mismatch');
 
-    console.log('Setting deployer fee models percentages...');
-    await (await dataset.setDeployerFeeModelPercentages(models, percentages)).wait();
+      console.log('Setting deployer fee models percentages...');
+      await (await dataset.setDeployerFeeModelPercentages(models, percentages)).wait();
 
-    console.log(
-      'No fee model percentage:',
-      await dataset.deployerFeeModelPercentage(constants.DeployerFeeModel.NO_FEE)
-    );
-    console.log(
-      'Dataset Owner Storage model percentage:',
-      await dataset.deployerFeeModelPercentage(constants.DeployerFeeModel.DATASET_OWNER_STORAGE)
-    );
-    console.log(
-      'Deployer Storage model percentage:',
-      await dataset.deployerFeeModelPercentage(constants.DeployerFeeModel.DEPLOYER_STORAGE)
-    );
-  });
+      console.log(
+        'No fee model percentage:',
+        await dataset.deployerFeeModelPercentage(constants.DeployerFeeModel.NO_FEE)
+      );
+      console.log(
+        'Dataset Owner Storage model percentage:',
+        await dataset.deployerFeeModelPercentage(constants.DeployerFeeModel.DATASET_OWNER_STORAGE)
+      );
+      console.log(
+        'Deployer Storage model percentage:',
+        await dataset.deployerFeeModelPercentage(constants.DeployerFeeModel.DEPLOYER_STORAGE)
+      );
+    })
+  );
@@ -0,0 +1,134 @@
+import { Addressable, formatUnits, parseUnits } from 'ethers';
+import { task } from 'hardhat/config';
+import { encoding } from '../utils';
+import { EXPORT_DESCRIPTION, SIGNER_SOURCES, resolveSigner } from './signers';
+import { formatPercentage, getFeeToken, parsePercentage, withNuklaiErrors } from './utils';
+
+interface TaskArgs {
+  signer: string;
+  export?: string;
+  contractAddress: Addressable;
+  datasetId: string;
+  tags?: string;
+  weights?: string;
+  ownerPercentage?: string;
+  amount: string;
+  dryRun: boolean;
+}
+
+task(
+  'set-distribution',
+  'Sets the tag weights and/or owner percentage of a data set, previewing the split of the next payment'
+)
+  .addParam('signer', `Data set owner (${SIGNER_SOURCES})`)
+  .addParam('contractAddress', 'Address of the DatasetNFT contract')
+  .addParam('datasetId', 'Id of the data set')
+  .addOptionalParam('tags', 'Contribution tags, separated by commas (tag1,tag2)')
+  .addOptionalParam('weights', 'Weights of the respective tags, separated by commas (40%,60%)')
+  .addOptionalParam(
+    'ownerPercentage',
+    'Percentage of each payment sent to the data set owner (10%)'
+  )
+  .addOptionalParam('amount', 'Payment amount of the preview, in fee token units', '100')
+  .addFlag('dryRun', 'Only validates and previews the new distribution')
+  .addOptionalParam('export', EXPORT_DESCRIPTION)
+  .setAction(
+    withNuklaiErrors(async (taskArgs: TaskArgs) => {
+      if (!taskArgs.tags !== !taskArgs.weights) throw new Error('Tags and weights go together');
+      if (!taskArgs.tags && !taskArgs.ownerPercentage)
+        throw new Error('No tag weights or owner percentage provided');
+
+      const { NuklaiClient, splitPayment } = await import('../sdk');
+
+      const wallet = await resolveSigner(taskArgs.signer, taskArgs.export);
+      const client = new NuklaiClient(taskArgs.contractAddress.toString(), wallet);
+      const dataset = client.dataset;
+      const datasetId = BigInt(taskArgs.datasetId);
+      const { distributionManager, subscriptionManager } = await client.getDatasetContracts(
+        datasetId
+      );
+
+      if ((await dataset.ownerOf(datasetId)) !== (await wallet.getAddress()))
+        throw new Error('Signer is not the data set owner');
+
+      const base = await distributionManager.BASE_100_PERCENT();
+      const maxOwnerPercentage = await distributionManager.MAX_DATASET_OWNER_PERCENTAGE();
+
+      const tags = taskArgs.tags?.split(',').map((tag) => tag.trim());
+      const weights = taskArgs.weights?.split(',').map(parsePercentage);
+      if (tags && weights) {
+        if (tags.length !== weights.length) throw new Error('args length mismatch');
+        if (new Set(tags).size !== tags.length) throw new Error('Duplicate tags');
+
+        const sum = weights.reduce((sum, weight) => sum + weight, 0n);
+        if (sum !== base)
+          throw new Error(`Tag weights sum up to ${formatPercentage(sum)} instead of 100%`);
+      }
+
+      const ownerPercentage =
+        taskArgs.ownerPercentage !== undefined
+          ? parsePercentage(taskArgs.ownerPercentage)
+          : await distributionManager.datasetOwnerPercentage();
+      if (ownerPercentage > maxOwnerPercentage)
+        throw new Error(
+          `Owner percentage ${formatPercentage(ownerPercentage)} exceeds ${formatPercentage(
+            maxOwnerPercentage
+          )}`
+        );
+
+      const feeToken = await getFeeToken(subscriptionManager);
+      const decimals = await feeToken.decimals();
+      const symbol = await feeToken.symbol();
+      const format = (amount: bigint) => `${formatUnits(amount, decimals)} ${symbol}`;
+
+      const amount = parseUnits(taskArgs.amount, decimals);
+      const deployerPercentage = await dataset.deployerFeePercentage(datasetId);
+      const { deployerFee, ownerFee, distributionAmount } = splitPayment(
+        amount,
+        deployerPercentage,
+        ownerPercentage
+      );
+
+      console.log(`Split of a ${format(amount)} payment`);
+      console.table([
+        {
+          recipient: 'deployer',
+          percentage: formatPercentage(deployerPercentage),
+          amount: format(deployerFee),
+        },
+        {
+          recipient: 'owner',
+          percentage: formatPercentage(ownerPercentage),
+          amount: format(ownerFee),
+        },
+        { recipient: 'contributors', percentage: '', amount: format(distributionAmount) },
+        ...(tags ?? []).map((tag, i) => ({
+          recipient: `tag ${tag}`,
+          percentage: formatPercentage(weights![i]),
+          amount: format((distributionAmount * weights![i]) / base),
+        })),
+      ]);
+
+      if (taskArgs.dryRun) return;
+
+      const encodedTags = tags?.map(encoding.encodeTag);
+      if (encodedTags && taskArgs.ownerPercentage !== undefined) {
+        console.log('Setting owner percentage and tag weights of data set', taskArgs.datasetId);
+        await (
+          await distributionManager.setDSOwnerPercentageAndTagWeights(
+            ownerPercentage,
+            encodedTags,
+            weights!
+          )
+        ).wait();
+      } else if (encodedTags) {
+        console.log('Setting tag weights of data set', taskArgs.datasetId);
+        await (await distributionManager.setTagWeights(encodedTags, weights!)).wait();
+      } else {
+        console.log('Setting owner percentage of data set', taskArgs.datasetId);
+        await (await distributionManager.setDatasetOwnerPercentage(ownerPercentage)).wait();
+      }
+
+      console.log('Distribution of data set', taskArgs.datasetId, 'set successfully');
+    })
+  );
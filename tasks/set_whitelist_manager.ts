@@ -2,31 +2,37 @@ import { DatasetNFT } from '../typechain-types';
 import { Addressable } from 'ethers';
 import { WHITELISTED_MANAGER_ROLE } from '../utils/constants';
 import { task } from 'hardhat/config';
+import { EXPORT_DESCRIPTION, SIGNER_SOURCES, resolveSigner } from './signers';
+import { withNuklaiErrors } from './utils';
 
 interface TaskArgs {
-  pk: string;
+  signer: string;
+  export?: string;
   contractAddress: Addressable;
   managerAddress: Addressable;
 }
 
 task('set-whitelist-manager', 'Adds a new whitelisted manager to a data set')
-  .addParam('pk', 'Signer private key with ADMIN_ROLE')
+  .addParam('signer', `Signer with ADMIN_ROLE (${SIGNER_SOURCES})`)
   .addParam('contractAddress', 'Address of the DatasetNFT contract')
   .addParam('managerAddress', 'Address of the manager to whitelist')
-  .setAction(async (taskArgs: TaskArgs) => {
-    if (!taskArgs.contractAddress || !taskArgs.managerAddress)
-      throw new Error('No address provided');
+  .addOptionalParam('export', EXPORT_DESCRIPTION)
+  .setAction(
+    withNuklaiErrors(async (taskArgs: TaskArgs) => {
+      if (!taskArgs.contractAddress || !taskArgs.managerAddress)
+        throw new Error('No address provided');
 
-    const wallet = new ethers.Wallet(taskArgs.pk, ethers.provider);
+      const wallet = await resolveSigner(taskArgs.signer, taskArgs.export);
 
-    const dataset = (await ethers.getContractAt(
-      'DatasetNFT',
-      taskArgs.contractAddress,
-      wallet
-    )) as unknown as DatasetNFT;
+      const dataset = (await ethers.getContractAt(
+        'DatasetNFT',
+        taskArgs.contractAddress,
+        wallet
+      )) as unknown as DatasetNFT;
 
-    console.log('Whitelisting manager', taskArgs.managerAddress);
-    await (await dataset.grantRole(WHITELISTED_MANAGER_ROLE, taskArgs.managerAddress)).wait();
+      console.log('Whitelisting manager', taskArgs.managerAddress);
+      await (await dataset.grantRole(WHITELISTED_MANAGER_ROLE, taskArgs.managerAddress)).wait();
 
-    console.log('Manager', taskArgs.managerAddress, 'successfully whitelisted');
-  });
+      console.log('Manager', taskArgs.managerAddress, 'successfully whitelisted');
+    })
+  );
@@ -0,0 +1,104 @@
+import { HDNodeWallet, Provider, Signer, TransactionRequest, VoidSigner, Wallet } from 'ethers';
+import { readFileSync } from 'fs';
+import { network as networkUtils } from '../utils';
+
+/**
+ * Signer sources accepted by the `--signer` option of the tasks:
+ *  - `keystore:<path>` an encrypted JSON keystore, decrypted with the KEYSTORE_PASSWORD environment variable
+ *  - `mnemonic:<index>` the account at `index` of the network mnemonic (see `utils/network.ts`)
+ *  - `named:<account>` a named account of `hardhat.config.ts`
+ *  - `unsigned:<address>` prints the transaction of `address` instead of sending it
+ */
+export const SIGNER_SOURCES =
+  'keystore:<path>, mnemonic:<index>, named:<account> or unsigned:<address>';
+
+export const EXPORT_DESCRIPTION =
+  'Path of a Safe Transaction Builder batch to append the transaction to, instead of sending it';
+
+/**
+ * Thrown by `UnsignedSigner` once the unsigned transaction is printed, ending the task
+ */
+export class UnsignedTransactionError extends Error {
+  constructor(readonly transaction: TransactionRequest) {
+    super('Transaction not sent: the signer is unsigned');
+    this.name = 'UnsignedTransactionError';
+  }
+}
+
+/**
+ * Signer of the "unsigned" mode, printing the first transaction of a task for an external wallet to send it
+ */
+export class UnsignedSigner extends VoidSigner {
+  connect(provider: Provider | null): UnsignedSigner {
+    return new UnsignedSigner(this.address, provider);
+  }
+
+  async sendTransaction(tx: TransactionRequest): Promise<never> {
+    const { from, to, data, value } = await this.populateCall(tx);
+    const { chainId } = await this.provider!.getNetwork();
+
+    const transaction = {
+      chainId: chainId.toString(),
+      from,
+      to,
+      data,
+      value: (value ?? 0n).toString(),
+    };
+    console.log('Unsigned transaction:');
+    console.log(JSON.stringify(transaction, null, 2));
+
+    throw new UnsignedTransactionError(transaction);
+  }
+}
+
+/**
+ * Resolves the `--signer` option of a task, connected to the network provider.
+ * With `exportPath` (the `--export` option) the transaction of the task is appended to a
+ * Safe Transaction Builder batch instead, the signer being the Safe executing it.
+ */
+export async function resolveSigner(source: string, exportPath?: string): Promise<Signer> {
+  if (exportPath) {
+    const { ExportSigner } = await import('./safe');
+    const safe = await resolveSigner(source);
+
+    return new ExportSigner(await safe.getAddress(), ethers.provider, exportPath);
+  }
+
+  const separator = source.indexOf(':');
+  const kind = separator > 0 ? source.slice(0, separator) : source;
+  const value = separator > 0 ? source.slice(separator + 1) : '';
+
+  if (!value) throw new Error(`Invalid signer ${source}, expected <source>:<value>`);
+
+  switch (kind) {
+    case 'keystore': {
+      const password = process.env.KEYSTORE_PASSWORD;
+      if (password === undefined) throw new Error('KEYSTORE_PASSWORD is not set');
+
+      const wallet = await Wallet.fromEncryptedJson(readFileSync(value, 'utf8'), password);
+      return wallet.connect(ethers.provider);
+    }
+    case 'mnemonic': {
+      const index = Number(value);
+      if (!Number.isInteger(index) || index < 0) throw new Error(`Invalid mnemonic index ${value}`);
+
+      return HDNodeWallet.fromPhrase(
+        networkUtils.getMnemonic(network.name),
+        undefined,
+        `m/44'/60'/0'/0/${index}`
+      ).connect(ethers.provider);
+    }
+    case 'named': {
+      const namedAccounts = await getNamedAccounts();
+      if (!namedAccounts[value]) throw new Error(`Unknown named account ${value}`);
+
+      return ethers.getSigner(namedAccounts[value]);
+    }
+    case 'unsigned':
+      if (!ethers.isAddress(value)) throw new Error(`Invalid unsigned signer address ${value}`);
+
+      return new UnsignedSigner(ethers.getAddress(value), ethers.provider);
+    default:
+      throw new Error(`Unknown signer source ${kind}`);
+  }
+}
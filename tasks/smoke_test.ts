@@ -0,0 +1,408 @@
+import { DatasetFactory, DatasetNFT, IERC20Metadata, ProxyAdmin } from '../typechain-types';
+import { randomUUID } from 'crypto';
+import {
+  Addressable,
+  FunctionFragment,
+  Interface,
+  Signer,
+  ZeroAddress,
+  getAddress,
+  parseUnits,
+  toBeHex,
+} from 'ethers';
+import { task } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { constants, encoding, signature } from '../utils';
+import { SIGNER_SOURCES, resolveSigner } from './signers';
+import { withNuklaiErrors } from './utils';
+
+interface TaskArgs {
+  contractAddress?: Addressable;
+  proxyAdminOwner?: string;
+  signer: string;
+  owner?: string;
+  contributor?: string;
+  feeToken?: string;
+  defaultVerifier?: string;
+  dailyFee: string;
+  skipCycle: boolean;
+}
+
+interface CheckResult {
+  check: string;
+  result: string;
+}
+
+type ManagerName = 'subscriptionManager' | 'distributionManager' | 'verifierManager';
+
+// Interfaces `DatasetNFT.setManagers` checks the Managers against, with the interfaces they extend
+const MANAGER_INTERFACES: Record<ManagerName, [string, string[]]> = {
+  subscriptionManager: [
+    'ISubscriptionManager',
+    ['IDatasetLinkInitializable', 'IERC721EnumerableUpgradeable'],
+  ],
+  distributionManager: [
+    'IDistributionManager',
+    ['IDatasetLinkInitializable', 'IERC165Upgradeable'],
+  ],
+  verifierManager: ['IVerifierManager', ['IDatasetLinkInitializable', 'IERC165Upgradeable']],
+};
+
+// hardhat-deploy names of the Manager implementations deployed by `deploy/004_deploy_DatasetManagers.ts`
+const MANAGER_DEPLOYMENTS: Record<ManagerName, string> = {
+  subscriptionManager: 'ERC20SubscriptionManager',
+  distributionManager: 'DistributionManager',
+  verifierManager: 'VerifierManager',
+};
+
+const SMOKE_TEST_TAG = 'smoke-test';
+
+/**
+ * Returns the ERC165 interface id of `name`, the XOR of the selectors of the functions it declares
+ * on top of the ones of the interfaces it extends
+ */
+const getInterfaceId = async (
+  hre: HardhatRuntimeEnvironment,
+  name: string,
+  extended: string[]
+): Promise<string> => {
+  const selectors = async (contract: string) =>
+    new Interface((await hre.artifacts.readArtifact(contract)).abi).fragments
+      .filter(FunctionFragment.isFragment)
+      .map(({ selector }) => selector);
+
+  const inherited = new Set((await Promise.all(extended.map(selectors))).flat());
+  const declared = (await selectors(name)).filter((selector) => !inherited.has(selector));
+
+  return toBeHex(
+    declared.reduce((id, selector) => id ^ BigInt(selector), 0n),
+    4
+  );
+};
+
+task(
+  'smoke-test',
+  'Checks the wiring of a deployment and runs a mint, propose, accept, subscribe and claim cycle on a disposable data set'
+)
+  .addOptionalParam(
+    'contractAddress',
+    'Address of the DatasetNFT contract, defaults to the one of the deployment records'
+  )
+  .addOptionalParam(
+    'proxyAdminOwner',
+    'Expected owner of the ProxyAdmin, defaults to the dtAdmin account'
+  )
+  .addOptionalParam(
+    'signer',
+    `Signer with SIGNER_ROLE signing the mint, proposal and claim requests (${SIGNER_SOURCES})`,
+    'named:dtAdmin'
+  )
+  .addOptionalParam(
+    'owner',
+    `Owner of the disposable data set, sending the transactions of the cycle, defaults to the signer (${SIGNER_SOURCES})`
+  )
+  .addOptionalParam(
+    'contributor',
+    `Contributor of the fragment, accepted and claiming manually, defaults to the owner (${SIGNER_SOURCES})`
+  )
+  .addOptionalParam(
+    'feeToken',
+    'Subscription fee token of the disposable data set, defaults to the TestToken deployment'
+  )
+  .addOptionalParam(
+    'defaultVerifier',
+    'AcceptManuallyVerifier of the disposable data set, defaults to the one of the deployment records'
+  )
+  .addOptionalParam('dailyFee', 'Subscription fee per consumer per day, in token units', '0.001')
+  .addFlag('skipCycle', 'Only checks the wiring of the deployment, without sending transactions')
+  .setAction(
+    withNuklaiErrors(async (taskArgs: TaskArgs, hre: HardhatRuntimeEnvironment) => {
+      const { ClaimType, NuklaiClient } = await import('../sdk');
+
+      const datasetAddress =
+        taskArgs.contractAddress?.toString() ??
+        (await hre.deployments.getOrNull('DatasetNFT'))?.address;
+      if (!datasetAddress)
+        throw new Error('No DatasetNFT deployment, provide its --contract-address');
+
+      const dataset = (await ethers.getContractAt(
+        'DatasetNFT',
+        datasetAddress
+      )) as unknown as DatasetNFT;
+      const factoryAddress = await dataset.datasetFactory();
+      if (factoryAddress === ZeroAddress)
+        throw new Error('No DatasetFactory set on the DatasetNFT');
+      const factory = (await ethers.getContractAt(
+        'DatasetFactory',
+        factoryAddress
+      )) as unknown as DatasetFactory;
+      const proxyAdmin = (await ethers.getContractAt(
+        'ProxyAdmin',
+        await hre.upgrades.erc1967.getAdminAddress(datasetAddress)
+      )) as unknown as ProxyAdmin;
+
+      const results: CheckResult[] = [];
+
+      // Runs an assertion, recording its outcome instead of stopping at the first failure
+      const check = async (name: string, assertion: () => Promise<string | void>) => {
+        try {
+          results.push({ check: name, result: (await assertion()) || 'ok' });
+          return true;
+        } catch (error) {
+          results.push({ check: name, result: `FAILED: ${(error as Error).message}` });
+          return false;
+        }
+      };
+      const hasCode = async (address: string) => (await ethers.provider.getCode(address)) !== '0x';
+
+      await check('DatasetFactory is linked to the DatasetNFT', async () => {
+        const linked = await factory.datasetNFT();
+        if (linked !== getAddress(datasetAddress))
+          throw new Error(`DatasetFactory configured with ${linked}`);
+      });
+
+      await check('Manager templates are the current template version', async () => {
+        const version = await factory.currentTemplateVersion();
+        if (version === 0n) throw new Error('Manager templates not registered');
+        return `version ${version}`;
+      });
+
+      for (const [name, [interfaceName, extended]] of Object.entries(MANAGER_INTERFACES)) {
+        const manager = name as ManagerName;
+        const template = await factory[`${manager}Impl`]();
+
+        await check(`${MANAGER_DEPLOYMENTS[manager]} template is the deployed one`, async () => {
+          const deployment = await hre.deployments.getOrNull(MANAGER_DEPLOYMENTS[manager]);
+          if (!deployment) return 'no deployment record';
+          if (getAddress(deployment.address) !== template)
+            throw new Error(`${template} instead of ${deployment.address}`);
+        });
+
+        await check(`${MANAGER_DEPLOYMENTS[manager]} template is whitelisted`, async () => {
+          if (!(await dataset.hasRole(constants.WHITELISTED_MANAGER_ROLE, template)))
+            throw new Error(`${template} has no WHITELISTED_MANAGER_ROLE`);
+        });
+
+        await check(
+          `${MANAGER_DEPLOYMENTS[manager]} template supports ${interfaceName}`,
+          async () => {
+            const interfaceId = await getInterfaceId(hre, interfaceName, extended);
+            const erc165 = await ethers.getContractAt('IERC165Upgradeable', template);
+            if (!(await hasCode(template)) || !(await erc165.supportsInterface(interfaceId)))
+              throw new Error(`${template} does not support ${interfaceId}`);
+          }
+        );
+      }
+
+      await check('DatasetNFT has a FragmentNFT implementation', async () => {
+        const implementation = await dataset.fragmentImplementation();
+        if (!(await hasCode(implementation))) throw new Error(`No contract at ${implementation}`);
+      });
+
+      await check('ProxyAdmin is owned by the expected owner', async () => {
+        const expected = getAddress(
+          taskArgs.proxyAdminOwner ?? (await hre.getNamedAccounts()).dtAdmin
+        );
+        const owner = await proxyAdmin.owner();
+        if (owner !== expected) throw new Error(`Owned by ${owner} instead of ${expected}`);
+      });
+
+      await check('Deployer fee beneficiary is set', async () => {
+        if ((await dataset.deployerFeeBeneficiary()) === ZeroAddress)
+          throw new Error('No deployer fee beneficiary');
+      });
+
+      if (!taskArgs.skipCycle) {
+        const signer = await resolveSigner(taskArgs.signer);
+        const owner: Signer = taskArgs.owner ? await resolveSigner(taskArgs.owner) : signer;
+        const ownerAddress = await owner.getAddress();
+        const contributor = taskArgs.contributor
+          ? await resolveSigner(taskArgs.contributor)
+          : owner;
+        const contributorAddress = await contributor.getAddress();
+        const client = new NuklaiClient(datasetAddress, owner);
+
+        const { chainId } = await ethers.provider.getNetwork();
+        const eip712 = await dataset.eip712SignaturesEnabled();
+        const uuid = `${SMOKE_TEST_TAG}-${randomUUID()}`;
+        let datasetId = 0n;
+        let fragmentId = 0n;
+
+        // Each step of the cycle runs only if the previous ones succeeded
+        const cycle = [
+          [
+            'Cycle: mint a disposable data set',
+            async () => {
+              if (!(await dataset.isSigner(await signer.getAddress())))
+                throw new Error('Signer has no SIGNER_ROLE');
+
+              const feeToken = (await ethers.getContractAt(
+                'IERC20Metadata',
+                taskArgs.feeToken ?? (await hre.deployments.get('TestToken')).address
+              )) as unknown as IERC20Metadata;
+              const defaultVerifier =
+                taskArgs.defaultVerifier ??
+                (await hre.deployments.get('AcceptManuallyVerifier')).address;
+
+              const uuidHash = encoding.getUuidHash(uuid);
+              const mintMessage = eip712
+                ? signature.getDatasetMintTypedData(chainId, datasetAddress, uuidHash, ownerAddress)
+                : signature.getDatasetMintMessage(chainId, datasetAddress, uuidHash, ownerAddress);
+
+              const result = await client.mintDataset({
+                uuid,
+                owner: ownerAddress,
+                signature: await signature.signMessage(signer, mintMessage),
+                defaultVerifier,
+                feeToken,
+                feePerConsumerPerDay: parseUnits(taskArgs.dailyFee, await feeToken.decimals()),
+                datasetOwnerPercentage: parseUnits('0.1'),
+                tags: [SMOKE_TEST_TAG],
+                weights: [parseUnits('1')],
+              });
+              datasetId = result.datasetId;
+
+              const fragmentAdmin = await hre.upgrades.erc1967.getAdminAddress(result.fragmentNFT);
+              if (getAddress(fragmentAdmin) !== (await proxyAdmin.getAddress()))
+                throw new Error(`FragmentNFT administered by ${fragmentAdmin}`);
+
+              return `data set ${uuid}`;
+            },
+          ],
+          [
+            'Cycle: propose a fragment',
+            async () => {
+              const { fragmentNFT } = await client.getDatasetContracts(datasetId);
+              const counter = (await fragmentNFT.lastFragmentPendingId()) + 1n;
+              const tag = encoding.encodeTag(SMOKE_TEST_TAG);
+              const proposeMessage = eip712
+                ? signature.getDatasetFragmentProposeTypedData(
+                    chainId,
+                    await fragmentNFT.getAddress(),
+                    datasetId,
+                    counter,
+                    contributorAddress,
+                    tag
+                  )
+                : signature.getDatasetFragmentProposeMessage(
+                    chainId,
+                    datasetAddress,
+                    datasetId,
+                    counter,
+                    contributorAddress,
+                    tag
+                  );
+
+              ({ fragmentId } = await client.proposeFragment({
+                datasetId,
+                to: contributorAddress,
+                tag: SMOKE_TEST_TAG,
+                signature: await signature.signMessage(signer, proposeMessage),
+              }));
+
+              return `fragment ${fragmentId}`;
+            },
+          ],
+          [
+            'Cycle: accept the fragment',
+            async () => {
+              // The AcceptManuallyVerifier accepts the fragments of the data set owner on proposal
+              if (contributorAddress !== ownerAddress)
+                await client.resolveFragment({ datasetId, fragmentId, accept: true });
+
+              const { fragmentNFT } = await client.getDatasetContracts(datasetId);
+              if ((await fragmentNFT.ownerOf(fragmentId)) !== contributorAddress)
+                throw new Error(`Fragment ${fragmentId} not minted`);
+
+              if (contributorAddress === ownerAddress) return 'accepted on proposal';
+            },
+          ],
+          [
+            'Cycle: subscribe to the data set',
+            async () => {
+              const { subscriptionId } = await client.subscribe({
+                datasetId,
+                durationInDays: 1,
+                consumers: 1,
+              });
+
+              const { active } = await client.getSubscription({ datasetId, subscriptionId });
+              if (!active) throw new Error(`Subscription ${subscriptionId} not active`);
+
+              return `subscription ${subscriptionId}`;
+            },
+          ],
+          [
+            'Cycle: claim the revenue',
+            async () => {
+              const claims: [Signer, number][] =
+                contributorAddress === ownerAddress
+                  ? [[owner, ClaimType.DATASET_OWNER_AND_CONTRIBUTOR]]
+                  : [
+                      [owner, ClaimType.DATASET_OWNER],
+                      [contributor, ClaimType.CONTRIBUTOR],
+                    ];
+
+              let payouts = 0;
+              for (const [beneficiary, claimType] of claims) {
+                const beneficiaryAddress = await beneficiary.getAddress();
+                const beneficiaryClient = client.connect(beneficiary);
+                const { distributionManager } = await beneficiaryClient.getDatasetContracts(
+                  datasetId
+                );
+                const distributionAddress = await distributionManager.getAddress();
+
+                const { timestamp } = (await ethers.provider.getBlock('latest'))!;
+                const sigValidSince = BigInt(timestamp);
+                const sigValidTill = sigValidSince + 3600n;
+                const nonce = await distributionManager.claimNonces(beneficiaryAddress);
+                const claimMessage = eip712
+                  ? signature.getRevenueClaimTypedData(
+                      chainId,
+                      distributionAddress,
+                      beneficiaryAddress,
+                      sigValidSince,
+                      sigValidTill,
+                      nonce
+                    )
+                  : signature.getRevenueClaimMessage(
+                      chainId,
+                      distributionAddress,
+                      beneficiaryAddress,
+                      sigValidSince,
+                      sigValidTill,
+                      nonce
+                    );
+
+                const result = await beneficiaryClient.claimPayouts({
+                  datasetId,
+                  sigValidSince,
+                  sigValidTill,
+                  nonce,
+                  signature: await signature.signMessage(signer, claimMessage),
+                  claimType,
+                });
+                if (result.payouts.length === 0)
+                  throw new Error(`No payout sent to ${beneficiaryAddress}`);
+                payouts += result.payouts.length;
+              }
+
+              return `${payouts} payouts`;
+            },
+          ],
+        ] as const;
+
+        let passed = true;
+        for (const [name, step] of cycle) {
+          if (!passed) results.push({ check: name, result: 'skipped' });
+          else passed = await check(name, step);
+        }
+      }
+
+      console.table(results);
+
+      const failed = results.filter(({ result }) => result.startsWith('FAILED')).length;
+      if (failed > 0) throw new Error(`${failed} of ${results.length} smoke test checks failed`);
+      console.log(`Smoke test of ${datasetAddress} on ${network.name} passed`);
+    })
+  );
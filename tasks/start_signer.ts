@@ -0,0 +1,52 @@
+import { Addressable } from 'ethers';
+import { appendFileSync, readFileSync } from 'fs';
+import { task, types } from 'hardhat/config';
+import { SIGNER_SOURCES, resolveSigner } from './signers';
+import { withNuklaiErrors } from './utils';
+
+interface TaskArgs {
+  signer: string;
+  contractAddress: Addressable;
+  port: number;
+  policy?: string;
+  logFile?: string;
+}
+
+task('start-signer', 'Starts a local DT signing service issuing signatures under a policy')
+  .addParam('signer', `Signer with SIGNER_ROLE (${SIGNER_SOURCES})`)
+  .addParam('contractAddress', 'Address of the DatasetNFT contract')
+  .addOptionalParam('port', 'Port to listen on', 8080, types.int)
+  .addOptionalParam('policy', 'Path of a JSON file with the signing policy')
+  .addOptionalParam('logFile', 'Path of a file to append issued signatures to (JSON lines)')
+  .setAction(
+    withNuklaiErrors(async (taskArgs: TaskArgs) => {
+      const { SigningService, createSigningServer } = await import('../signer');
+
+      const wallet = await resolveSigner(taskArgs.signer);
+      const policy = taskArgs.policy ? JSON.parse(readFileSync(taskArgs.policy, 'utf8')) : {};
+
+      const service = new SigningService(
+        taskArgs.contractAddress.toString(),
+        wallet,
+        policy,
+        taskArgs.logFile
+          ? (entry) => appendFileSync(taskArgs.logFile!, JSON.stringify(entry) + '\n')
+          : undefined
+      );
+
+      await service.assertSigner();
+
+      const server = createSigningServer(service);
+
+      await new Promise<void>((resolve) => server.listen(taskArgs.port, resolve));
+      console.log(
+        'Signing service of',
+        await wallet.getAddress(),
+        'listening on port',
+        taskArgs.port
+      );
+
+      // Keep the task running until the server is closed
+      await new Promise((resolve) => server.on('close', resolve));
+    })
+  );
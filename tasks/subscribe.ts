@@ -0,0 +1,49 @@
+import { Addressable, formatUnits, parseUnits } from 'ethers';
+import { task, types } from 'hardhat/config';
+import { SIGNER_SOURCES, resolveSigner } from './signers';
+import { getFeeToken, parseConsumers, withNuklaiErrors } from './utils';
+
+interface TaskArgs {
+  signer: string;
+  contractAddress: Addressable;
+  datasetId: string;
+  days: number;
+  consumers: string;
+  maxFee?: string;
+}
+
+task('subscribe', 'Approves the fee token and subscribes to a data set')
+  .addParam('signer', `Subscriber paying the fee (${SIGNER_SOURCES})`)
+  .addParam('contractAddress', 'Address of the DatasetNFT contract')
+  .addParam('datasetId', 'Id of the data set')
+  .addParam('days', 'Duration of the subscription in days', undefined, types.int)
+  .addParam('consumers', 'Count of consumers, or their addresses separated by commas (0x1,0x2)')
+  .addOptionalParam('maxFee', 'Maximum fee in fee token units, defaults to the quoted fee')
+  .setAction(
+    withNuklaiErrors(async (taskArgs: TaskArgs) => {
+      const { NuklaiClient } = await import('../sdk');
+
+      const wallet = await resolveSigner(taskArgs.signer);
+      const client = new NuklaiClient(taskArgs.contractAddress.toString(), wallet);
+      const datasetId = BigInt(taskArgs.datasetId);
+      const { subscriptionManager } = await client.getDatasetContracts(datasetId);
+
+      const feeToken = await getFeeToken(subscriptionManager);
+      const decimals = await feeToken.decimals();
+
+      const { subscriptionId, fee, receipt } = await client.subscribe({
+        datasetId,
+        durationInDays: taskArgs.days,
+        consumers: parseConsumers(taskArgs.consumers),
+        maxFee: taskArgs.maxFee !== undefined ? parseUnits(taskArgs.maxFee, decimals) : undefined,
+      });
+
+      console.log(
+        `Subscription ${subscriptionId} paid ${formatUnits(
+          fee,
+          decimals
+        )} ${await feeToken.symbol()}`
+      );
+      console.log('Transaction hash', receipt.hash);
+    })
+  );
@@ -0,0 +1,52 @@
+import { Addressable } from 'ethers';
+import { task, types } from 'hardhat/config';
+import { withNuklaiErrors } from './utils';
+
+interface TaskArgs {
+  contractAddress: Addressable;
+  datasetId: string;
+  subscriptionId: string;
+  fromBlock: number;
+  json: boolean;
+}
+
+const toDate = (timestamp: bigint) => new Date(Number(timestamp) * 1000).toISOString();
+
+task('subscription-status', 'Shows the validity window and consumers of a subscription')
+  .addParam('contractAddress', 'Address of the DatasetNFT contract')
+  .addParam('datasetId', 'Id of the data set')
+  .addParam('subscriptionId', 'Id of the subscription')
+  .addOptionalParam('fromBlock', 'Block the data set was minted at', 0, types.int)
+  .addFlag('json', 'Prints the status as JSON')
+  .setAction(
+    withNuklaiErrors(async (taskArgs: TaskArgs) => {
+      const { NuklaiClient } = await import('../sdk');
+
+      const client = new NuklaiClient(taskArgs.contractAddress.toString(), ethers.provider);
+      const status = await client.getSubscription({
+        datasetId: taskArgs.datasetId,
+        subscriptionId: taskArgs.subscriptionId,
+        fromBlock: taskArgs.fromBlock,
+      });
+
+      if (taskArgs.json) {
+        console.log(
+          JSON.stringify(
+            status,
+            (_, value) => (typeof value === 'bigint' ? value.toString() : value),
+            2
+          )
+        );
+        return;
+      }
+
+      console.log(
+        `Subscription ${status.subscriptionId} (${status.active ? 'active' : 'expired'})`
+      );
+      console.log('Owner', status.owner);
+      console.log('Valid since', toDate(status.validSince));
+      console.log('Valid till', toDate(status.validTill));
+      console.log(`Consumers ${status.consumers.length} of ${status.paidConsumers} paid`);
+      status.consumers.forEach((consumer) => console.log(' ', consumer));
+    })
+  );
@@ -0,0 +1,154 @@
+import { ProxyAdmin } from '../typechain-types';
+import { Addressable, Signer, getAddress } from 'ethers';
+import { task } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { EXPORT_DESCRIPTION, SIGNER_SOURCES, resolveSigner } from './signers';
+import { withNuklaiErrors } from './utils';
+
+interface TaskArgs {
+  signer?: string;
+  export?: string;
+  execute: boolean;
+  contractAddress: Addressable;
+  contract: string;
+  referenceContract?: string;
+  implementation?: string;
+  deployer?: string;
+  reinitializer?: string;
+  reinitializerArgs: string;
+}
+
+task('upgrade-dataset', 'Upgrades the DatasetNFT proxy to a new implementation')
+  .addParam('contractAddress', 'Address of the DatasetNFT proxy')
+  .addOptionalParam('contract', 'Contract of the new implementation', 'DatasetNFT')
+  .addOptionalParam(
+    'referenceContract',
+    'Contract of the current implementation, if it is not in the OpenZeppelin network manifest'
+  )
+  .addOptionalParam(
+    'implementation',
+    'Address of the new implementation, if already deployed, instead of deploying it'
+  )
+  .addOptionalParam(
+    'deployer',
+    `Account deploying the new implementation, defaults to the signer (${SIGNER_SOURCES})`
+  )
+  .addOptionalParam('reinitializer', 'Function of the new implementation called on upgrade')
+  .addOptionalParam('reinitializerArgs', 'Arguments of the reinitializer, as a JSON array', '[]')
+  .addOptionalParam('signer', `Owner of the ProxyAdmin (${SIGNER_SOURCES})`)
+  .addOptionalParam(
+    'export',
+    EXPORT_DESCRIPTION.replace('the transaction', 'the upgrade transaction')
+  )
+  .addFlag('execute', 'Sends the upgrade transaction')
+  .setAction(
+    withNuklaiErrors(async (taskArgs: TaskArgs, hre: HardhatRuntimeEnvironment) => {
+      if ((taskArgs.execute || taskArgs.export) && !taskArgs.signer)
+        throw new Error('No signer provided');
+      if (taskArgs.execute && taskArgs.export)
+        throw new Error('Either execute or export the transaction');
+      if (taskArgs.export && !taskArgs.implementation && !taskArgs.deployer)
+        throw new Error('Provide a --deployer of the new implementation, or its --implementation');
+
+      await hre.run('compile', { quiet: true });
+
+      const proxy = getAddress(taskArgs.contractAddress.toString());
+      const currentImplementation = getAddress(
+        await hre.upgrades.erc1967.getImplementationAddress(proxy)
+      );
+      const proxyAdmin = (await ethers.getContractAt(
+        'ProxyAdmin',
+        await hre.upgrades.erc1967.getAdminAddress(proxy)
+      )) as unknown as ProxyAdmin;
+
+      const newImplementation = await hre.ethers.getContractFactory(taskArgs.contract);
+
+      // Encoded first, for an unknown reinitializer to fail before anything is deployed
+      const data = taskArgs.reinitializer
+        ? newImplementation.interface.encodeFunctionData(
+            taskArgs.reinitializer,
+            JSON.parse(taskArgs.reinitializerArgs)
+          )
+        : '0x';
+
+      if (taskArgs.referenceContract)
+        await hre.upgrades.forceImport(
+          proxy,
+          await hre.ethers.getContractFactory(taskArgs.referenceContract),
+          { kind: 'transparent' }
+        );
+
+      console.log('Validating the upgrade from', currentImplementation);
+      await hre.upgrades
+        .validateUpgrade(proxy, newImplementation, { kind: 'transparent' })
+        .catch((error) => {
+          if (!taskArgs.referenceContract && /is not registered/.test(error.message))
+            throw new Error(
+              `${proxy} is not in the OpenZeppelin network manifest, provide its --reference-contract`
+            );
+          throw error;
+        });
+      console.log('Storage layout of', taskArgs.contract, 'compatible');
+
+      if (!taskArgs.execute && !taskArgs.export && !taskArgs.implementation) return;
+
+      let implementation: string;
+      if (taskArgs.implementation) {
+        implementation = getAddress(taskArgs.implementation);
+
+        // The storage layout is validated against the source of `contract`, which must be the one deployed
+        const { deployedBytecode } = await hre.artifacts.readArtifact(taskArgs.contract);
+        if ((await ethers.provider.getCode(implementation)) !== deployedBytecode)
+          throw new Error(`${implementation} is not a deployment of ${taskArgs.contract}`);
+
+        await hre.upgrades.forceImport(implementation, newImplementation, { kind: 'transparent' });
+      } else {
+        const deployer = await resolveSigner((taskArgs.deployer ?? taskArgs.signer)!);
+
+        // Reuses the implementation of the OpenZeppelin network manifest if already deployed
+        implementation = getAddress(
+          (await hre.upgrades.prepareUpgrade(proxy, newImplementation.connect(deployer), {
+            kind: 'transparent',
+          })) as string
+        );
+        console.log(taskArgs.contract, 'implementation at', implementation);
+      }
+
+      if (implementation === currentImplementation)
+        throw new Error(`${proxy} is already upgraded to ${implementation}`);
+      if (!taskArgs.execute && !taskArgs.export) return;
+
+      const wallet: Signer = await resolveSigner(taskArgs.signer!, taskArgs.export);
+      if ((await proxyAdmin.owner()) !== (await wallet.getAddress()))
+        throw new Error(`Signer does not own the ProxyAdmin ${await proxyAdmin.getAddress()}`);
+
+      const call = taskArgs.reinitializer ? `, calling ${taskArgs.reinitializer}` : '';
+      console.log(`Upgrading ${proxy} to ${implementation}${call}`);
+      const response = taskArgs.reinitializer
+        ? await proxyAdmin.connect(wallet).upgradeAndCall(proxy, implementation, data)
+        : await proxyAdmin.connect(wallet).upgrade(proxy, implementation);
+      const receipt = await response.wait();
+
+      // Keeps the hardhat-deploy records in sync, for the deploy scripts not to upgrade the proxy back
+      const proxyDeployment = await hre.deployments.getOrNull('DatasetNFT');
+      if (proxyDeployment && getAddress(proxyDeployment.address) === proxy) {
+        const artifact = await hre.deployments.getExtendedArtifact(taskArgs.contract);
+        const declared = new Set(artifact.abi.map(({ type, name }) => `${type}:${name}`));
+
+        await hre.deployments.save('DatasetNFT_Implementation', {
+          ...artifact,
+          address: implementation,
+        });
+        await hre.deployments.save('DatasetNFT', {
+          ...proxyDeployment,
+          abi: [
+            ...artifact.abi,
+            ...proxyDeployment.abi.filter(({ type, name }) => !declared.has(`${type}:${name}`)),
+          ],
+          implementation,
+        });
+      }
+
+      console.log('DatasetNFT upgraded, transaction hash', receipt?.hash);
+    })
+  );
@@ -0,0 +1,244 @@
+import { DatasetNFT, ProxyAdmin } from '../typechain-types';
+import { Addressable, ZeroAddress, getAddress } from 'ethers';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { task, types } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { EXPORT_DESCRIPTION, SIGNER_SOURCES, resolveSigner } from './signers';
+import { withNuklaiErrors } from './utils';
+
+interface TaskArgs {
+  signer?: string;
+  export?: string;
+  execute: boolean;
+  contractAddress: Addressable;
+  implementation?: string;
+  contract: string;
+  referenceContract?: string;
+  fromBlock: number;
+  batchSize: number;
+  state?: string;
+}
+
+interface FragmentProxy {
+  datasetId: string;
+  proxy: string;
+  /** Hash of the upgrade transaction, once upgraded by this task */
+  upgradeTransaction?: string;
+}
+
+/**
+ * Progress of an upgrade, saved after each step so that an interrupted upgrade can be resumed
+ */
+interface UpgradeState {
+  datasetNFT: string;
+  implementation: string;
+  /** Last block scanned for `FragmentInstanceDeployment` events */
+  scannedToBlock: number;
+  proxies: FragmentProxy[];
+}
+
+// Block range of each `FragmentInstanceDeployment` query, kept under the usual RPC limits
+const BLOCK_RANGE = 2000;
+
+const writeState = (path: string, state: UpgradeState) =>
+  writeFileSync(path, JSON.stringify(state, null, 2) + '\n');
+
+// Drops the CBOR metadata appended by solc, whose length is given by the last 2 bytes,
+// for builds differing only in their metadata (e.g. source paths) to compare equal
+const stripMetadata = (code: string) =>
+  code.length > 6 ? code.slice(0, -(parseInt(code.slice(-4), 16) * 2 + 4)) : code;
+
+// upgrades.json => upgrades.1.json, so that every Safe batch fits in a block
+const exportBatchPath = (path: string, batch: number) =>
+  path.replace(/(\.json)?$/, `.${batch}.json`);
+
+task(
+  'upgrade-fragments',
+  'Upgrades the FragmentNFT proxies of all data sets to a new implementation'
+)
+  .addParam('contractAddress', 'Address of the DatasetNFT contract')
+  .addOptionalParam(
+    'implementation',
+    'Address of the new FragmentNFT implementation, defaults to the fragmentImplementation of the DatasetNFT'
+  )
+  .addOptionalParam('contract', 'Contract of the new implementation', 'FragmentNFT')
+  .addOptionalParam(
+    'referenceContract',
+    'Contract of the current implementations, if they are not in the OpenZeppelin network manifest'
+  )
+  .addOptionalParam('fromBlock', 'Block the DatasetNFT was deployed at', 0, types.int)
+  .addOptionalParam('batchSize', 'Number of proxies upgraded per batch', 20, types.int)
+  .addOptionalParam(
+    'state',
+    'Path of the progress file, defaults to fragment-upgrade.<network>.json'
+  )
+  .addOptionalParam('signer', `Owner of the ProxyAdmin (${SIGNER_SOURCES})`)
+  .addOptionalParam(
+    'export',
+    EXPORT_DESCRIPTION.replace('the transaction', 'the transactions of each batch')
+  )
+  .addFlag('execute', 'Sends the upgrade transactions')
+  .setAction(
+    withNuklaiErrors(async (taskArgs: TaskArgs, hre: HardhatRuntimeEnvironment) => {
+      if ((taskArgs.execute || taskArgs.export) && !taskArgs.signer)
+        throw new Error('No signer provided');
+      if (taskArgs.execute && taskArgs.export)
+        throw new Error('Either execute or export the transactions');
+
+      const dataset = (await ethers.getContractAt(
+        'DatasetNFT',
+        taskArgs.contractAddress
+      )) as unknown as DatasetNFT;
+      const datasetAddress = await dataset.getAddress();
+
+      const implementation = getAddress(
+        taskArgs.implementation ?? (await dataset.fragmentImplementation())
+      );
+      if (implementation === ZeroAddress) throw new Error('No FragmentNFT implementation set');
+
+      const statePath = taskArgs.state ?? `fragment-upgrade.${network.name}.json`;
+      const state: UpgradeState = existsSync(statePath)
+        ? JSON.parse(readFileSync(statePath, 'utf8'))
+        : {
+            datasetNFT: datasetAddress,
+            implementation,
+            scannedToBlock: taskArgs.fromBlock - 1,
+            proxies: [],
+          };
+      if (state.datasetNFT !== datasetAddress || state.implementation !== implementation)
+        throw new Error(
+          `${statePath} tracks the upgrade of ${state.datasetNFT} to ${state.implementation}`
+        );
+
+      // Enumerate the proxies deployed since the last run
+      const toBlock = await ethers.provider.getBlockNumber();
+      for (let from = state.scannedToBlock + 1; from <= toBlock; from += BLOCK_RANGE) {
+        const to = Math.min(from + BLOCK_RANGE - 1, toBlock);
+
+        for (const event of await dataset.queryFilter(
+          dataset.filters.FragmentInstanceDeployment(),
+          from,
+          to
+        )) {
+          state.proxies.push({
+            datasetId: event.args.id.toString(),
+            proxy: getAddress(event.args.instance),
+          });
+        }
+
+        state.scannedToBlock = to;
+      }
+      writeState(statePath, state);
+
+      const pending: (FragmentProxy & { currentImplementation: string })[] = [];
+      const admins = new Set<string>();
+      for (const fragment of state.proxies) {
+        const currentImplementation = getAddress(
+          await hre.upgrades.erc1967.getImplementationAddress(fragment.proxy)
+        );
+        if (currentImplementation === implementation) continue;
+
+        pending.push({ ...fragment, currentImplementation });
+        admins.add(getAddress(await hre.upgrades.erc1967.getAdminAddress(fragment.proxy)));
+      }
+
+      console.log(
+        `${pending.length} of ${state.proxies.length} FragmentNFT proxies to upgrade to`,
+        implementation
+      );
+      if (pending.length === 0) return;
+
+      if (admins.size > 1) throw new Error(`Proxies administered by ${[...admins].join(', ')}`);
+
+      // The storage layout is validated against the source of `contract`, which must be the one deployed
+      const { deployedBytecode } = await hre.artifacts.readArtifact(taskArgs.contract);
+      if (
+        stripMetadata(await ethers.provider.getCode(implementation)) !==
+        stripMetadata(deployedBytecode)
+      )
+        throw new Error(`${implementation} is not a deployment of ${taskArgs.contract}`);
+
+      const newImplementation = await hre.ethers.getContractFactory(taskArgs.contract);
+      const referenceImplementation =
+        taskArgs.referenceContract &&
+        (await hre.ethers.getContractFactory(taskArgs.referenceContract));
+
+      // Read-only, a dry run leaves the OpenZeppelin network manifest untouched
+      for (const currentImplementation of new Set(
+        pending.map(({ currentImplementation }) => currentImplementation)
+      )) {
+        console.log('Validating the upgrade from', currentImplementation);
+        if (referenceImplementation)
+          await hre.upgrades.validateUpgrade(referenceImplementation, newImplementation, {
+            kind: 'transparent',
+          });
+        else
+          await hre.upgrades
+            .validateUpgrade(currentImplementation, newImplementation, { kind: 'transparent' })
+            .catch((error) => {
+              if (/is not registered/.test(error.message))
+                throw new Error(
+                  `${currentImplementation} is not in the OpenZeppelin network manifest, provide its --reference-contract`
+                );
+              throw error;
+            });
+      }
+
+      const proxyAdmin = (await ethers.getContractAt(
+        'ProxyAdmin',
+        [...admins][0]
+      )) as unknown as ProxyAdmin;
+
+      const batches = Math.ceil(pending.length / taskArgs.batchSize);
+      console.log(`Upgrade valid, ${batches} batches of up to ${taskArgs.batchSize} proxies`);
+
+      if (!taskArgs.execute && !taskArgs.export) return;
+
+      const wallet = await resolveSigner(taskArgs.signer!);
+      if ((await proxyAdmin.owner()) !== (await wallet.getAddress()))
+        throw new Error(`Signer does not own the ProxyAdmin ${await proxyAdmin.getAddress()}`);
+
+      // Registers the new implementation, for the next upgrade to be validated against it
+      await hre.upgrades.forceImport(implementation, newImplementation, { kind: 'transparent' });
+
+      for (let batch = 0; batch < batches; batch++) {
+        const fragments = pending.slice(
+          batch * taskArgs.batchSize,
+          (batch + 1) * taskArgs.batchSize
+        );
+
+        if (taskArgs.export) {
+          const { appendSafeTransaction } = await import('./safe');
+
+          const path = exportBatchPath(taskArgs.export, batch + 1);
+          const { chainId } = await ethers.provider.getNetwork();
+
+          for (const { proxy } of fragments)
+            await appendSafeTransaction(path, chainId.toString(), await wallet.getAddress(), {
+              to: await proxyAdmin.getAddress(),
+              value: '0',
+              data: proxyAdmin.interface.encodeFunctionData('upgrade', [proxy, implementation]),
+            });
+
+          console.log(`Batch ${batch + 1}/${batches} exported to`, path);
+          continue;
+        }
+
+        const responses = [];
+        for (const { proxy } of fragments)
+          responses.push(await proxyAdmin.connect(wallet).upgrade(proxy, implementation));
+
+        for (const [i, response] of responses.entries()) {
+          await response.wait();
+          state.proxies.find(({ proxy }) => proxy === fragments[i].proxy)!.upgradeTransaction =
+            response.hash;
+        }
+        writeState(statePath, state);
+
+        const upgraded = Math.min((batch + 1) * taskArgs.batchSize, pending.length);
+        console.log(`Batch ${batch + 1}/${batches}: ${upgraded} of ${pending.length} upgraded`);
+      }
+
+      if (taskArgs.execute) console.log('FragmentNFT proxies upgraded, progress in', statePath);
+    })
+  );
@@ -0,0 +1,82 @@
+import { DistributionManager, ERC20SubscriptionManager, IERC20Metadata } from '../typechain-types';
+import { BytesLike, formatUnits, getAddress, parseUnits } from 'ethers';
+import { HardhatPluginError } from 'hardhat/plugins';
+import { ActionType, TaskArguments } from 'hardhat/types';
+import { UnsignedTransactionError } from './signers';
+
+/**
+ * Wraps a task action so that reverts with a custom error of the Nuklai contracts
+ * are reported with the decoded error name and arguments instead of the raw revert data.
+ * Tasks run with an unsigned signer end successfully once their transaction is printed.
+ */
+export function withNuklaiErrors<T extends TaskArguments>(action: ActionType<T>): ActionType<T> {
+  return async (taskArgs, env, runSuper) => {
+    try {
+      return await action(taskArgs, env, runSuper);
+    } catch (error) {
+      if (error instanceof UnsignedTransactionError) return;
+
+      const { decodeNuklaiError } = await import('../sdk');
+
+      const decoded = decodeNuklaiError(error);
+      if (!decoded) throw error;
+
+      const declaredIn = decoded.contracts.length > 0 ? ` (${decoded.contracts.join(', ')})` : '';
+      throw new HardhatPluginError(
+        'nuklai',
+        `Reverted with ${decoded.message}${declaredIn}`,
+        error as Error
+      );
+    }
+  };
+}
+
+/**
+ * Parses a comma separated list of addresses (0x1,0x2)
+ */
+export const parseAddresses = (value: string): string[] =>
+  value.split(',').map((address) => getAddress(address.trim()));
+
+/**
+ * Parses a consumers option, either a count of consumers (2) or their addresses (0x1,0x2)
+ */
+export const parseConsumers = (value: string): bigint | string[] =>
+  /^\d+$/.test(value.trim()) ? BigInt(value.trim()) : parseAddresses(value);
+
+/**
+ * Returns the ERC20 token the subscription fees of a SubscriptionManager are paid with
+ */
+export const getFeeToken = async (
+  subscriptionManager: ERC20SubscriptionManager
+): Promise<IERC20Metadata> =>
+  (await ethers.getContractAt(
+    'IERC20Metadata',
+    await subscriptionManager.token()
+  )) as unknown as IERC20Metadata;
+
+/**
+ * Returns the weights of `tags` in a DistributionManager, or undefined while its tag weights were
+ * never set, `getTagWeights` reverting with an arithmetic panic until then
+ */
+export const getTagWeights = async (
+  distributionManager: DistributionManager,
+  tags: BytesLike[]
+): Promise<bigint[] | undefined> =>
+  distributionManager.getTagWeights(tags).catch(async (error) => {
+    const { decodeNuklaiError } = await import('../sdk');
+    if (decodeNuklaiError(error)?.name !== 'Panic') throw error;
+    return undefined;
+  });
+
+/**
+ * Parses a percentage, either as a percent (40%) or a fraction (0.4), scaled so that 100% = 1e18
+ */
+export const parsePercentage = (value: string): bigint =>
+  value.trim().endsWith('%')
+    ? parseUnits(value.trim().slice(0, -1), 16)
+    : parseUnits(value.trim(), 18);
+
+/**
+ * Formats a percentage scaled so that 100% = 1e18 as a percent (40.0%)
+ */
+export const formatPercentage = (value: bigint): string => `${formatUnits(value, 16)}%`;
@@ -0,0 +1,40 @@
+import { existsSync, readFileSync } from 'fs';
+import { task } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { manifest } from '../utils';
+import { withNuklaiErrors } from './utils';
+
+interface TaskArgs {
+  manifest?: string;
+  fail: boolean;
+}
+
+task('validate-manifest', 'Validates a deployment manifest against the live chain state')
+  .addOptionalParam('manifest', 'Path of the manifest, defaults to manifests/<network>.json')
+  .addFlag('fail', 'Exits with code 1 if the manifest does not match the chain state')
+  .setAction(
+    withNuklaiErrors(async (taskArgs: TaskArgs, hre: HardhatRuntimeEnvironment) => {
+      const path = taskArgs.manifest ?? `manifests/${network.name}.json`;
+      if (!existsSync(path)) throw new Error(`No deployment manifest at ${path}`);
+
+      const expected: manifest.DeploymentManifest = JSON.parse(readFileSync(path, 'utf8'));
+      if (expected.version !== manifest.MANIFEST_VERSION)
+        throw new Error(
+          `${path} has version ${expected.version}, expected ${manifest.MANIFEST_VERSION}`
+        );
+
+      // Snapshots the chain state at the addresses of the manifest
+      const live = await manifest.buildDeploymentManifest(hre, expected.contracts);
+      const differences = manifest.diffDeploymentManifest(expected, live);
+
+      if (differences.length === 0) {
+        console.log(`${path} matches the chain state of ${network.name}`);
+        return;
+      }
+
+      console.log(`${path} differs from the chain state of ${network.name}:`);
+      for (const difference of differences) console.log(`  ${difference}`);
+
+      if (taskArgs.fail) process.exitCode = 1;
+    })
+  );
@@ -50,6 +50,29 @@ export default async function suite(): Promise<void> {
       snap = await ethers.provider.send('evm_snapshot', []);
     });
 
+    afterEach(async () => {
+      await ethers.provider.send('evm_revert', [snap]);
+    });
+
+    it('constructor() :: Should set the provided owner', async () => {
+      expect(await DatasetFactory_.owner()).to.equal(users_.dtAdmin.address);
+
+      const DatasetFactoryFactory = await ethers.getContractFactory('DatasetFactory');
+      const datasetFactory = await DatasetFactoryFactory.connect(users_.user).deploy(
+        users_.dtAdmin.address
+      );
+
+      expect(await datasetFactory.owner()).to.equal(users_.dtAdmin.address);
+    });
+
+    it('constructor() :: Should revert when provided owner is zeroAddress', async () => {
+      const DatasetFactoryFactory = await ethers.getContractFactory('DatasetFactory');
+
+      await expect(DatasetFactoryFactory.deploy(ZeroAddress))
+        .to.be.revertedWithCustomError(DatasetFactory_, 'ZERO_ADDRESS')
+        .withArgs('owner');
+    });
+
     it('configure() :: Should revert when msgSender is not owner', async () => {
       // Admin is the owner
       await expect(
@@ -121,5 +144,80 @@ export default async function suite(): Promise<void> {
         .to.be.revertedWithCustomError(DatasetFactory_, 'ZERO_ADDRESS')
         .withArgs('verifierManager');
     });
+
+    it('configure() :: Should register the deployed Manager implementations as template version 1', async () => {
+      expect(await DatasetFactory_.templateVersionCount()).to.equal(1);
+      expect(await DatasetFactory_.currentTemplateVersion()).to.equal(1);
+
+      const [subscriptionManager, distributionManager, verifierManager] =
+        await DatasetFactory_.templateVersion(1);
+
+      expect(subscriptionManager).to.equal(await DatasetFactory_.subscriptionManagerImpl());
+      expect(distributionManager).to.equal(await DatasetFactory_.distributionManagerImpl());
+      expect(verifierManager).to.equal(await DatasetFactory_.verifierManagerImpl());
+    });
+
+    it('configure() :: Should register new Manager implementations as a new template version', async () => {
+      const DistributionManagerFactory = await ethers.getContractFactory('DistributionManager');
+      const DistributionManager = await DistributionManagerFactory.connect(users_.dtAdmin).deploy();
+      const distributionManagerAddr = await DistributionManager.getAddress();
+
+      const subscriptionManagerAddr = await DatasetFactory_.subscriptionManagerImpl();
+      const verifierManagerAddr = await DatasetFactory_.verifierManagerImpl();
+
+      await expect(
+        DatasetFactory_.connect(users_.dtAdmin).configure(
+          await DatasetNFT_.getAddress(),
+          subscriptionManagerAddr,
+          distributionManagerAddr,
+          verifierManagerAddr
+        )
+      )
+        .to.emit(DatasetFactory_, 'ManagersTemplateVersionAdded')
+        .withArgs(2, subscriptionManagerAddr, distributionManagerAddr, verifierManagerAddr);
+
+      expect(await DatasetFactory_.templateVersionCount()).to.equal(2);
+      expect(await DatasetFactory_.currentTemplateVersion()).to.equal(2);
+      expect((await DatasetFactory_.templateVersion(2)).distributionManager).to.equal(
+        distributionManagerAddr
+      );
+    });
+
+    it('configure() :: Should not register already registered Manager implementations again', async () => {
+      const [subscriptionManager, distributionManager, verifierManager] =
+        await DatasetFactory_.templateVersion(1);
+
+      const DistributionManagerFactory = await ethers.getContractFactory('DistributionManager');
+      const DistributionManager = await DistributionManagerFactory.connect(users_.dtAdmin).deploy();
+
+      await DatasetFactory_.connect(users_.dtAdmin).configure(
+        await DatasetNFT_.getAddress(),
+        subscriptionManager,
+        await DistributionManager.getAddress(),
+        verifierManager
+      );
+
+      await expect(
+        DatasetFactory_.connect(users_.dtAdmin).configure(
+          await DatasetNFT_.getAddress(),
+          subscriptionManager,
+          distributionManager,
+          verifierManager
+        )
+      ).to.not.emit(DatasetFactory_, 'ManagersTemplateVersionAdded');
+
+      expect(await DatasetFactory_.templateVersionCount()).to.equal(2);
+      expect(await DatasetFactory_.currentTemplateVersion()).to.equal(1);
+    });
+
+    it('templateVersion() :: Should revert when provided version is not registered', async () => {
+      await expect(DatasetFactory_.templateVersion(0))
+        .to.be.revertedWithCustomError(DatasetFactory_, 'TEMPLATE_VERSION_INVALID')
+        .withArgs(0);
+
+      await expect(DatasetFactory_.templateVersion(2))
+        .to.be.revertedWithCustomError(DatasetFactory_, 'TEMPLATE_VERSION_INVALID')
+        .withArgs(2);
+    });
   });
 }
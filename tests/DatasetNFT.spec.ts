@@ -197,6 +197,7 @@ export default async function suite(): Promise<void> {
       const NewDatasetFactory = await deployments.deploy('DatasetFactory_new', {
         contract: 'DatasetFactory',
         from: users_.dtAdmin.address,
+        args: [users_.dtAdmin.address],
       });
 
       await DatasetNFT_.connect(users_.dtAdmin).setDatasetFactory(NewDatasetFactory.address);
@@ -237,6 +238,22 @@ export default async function suite(): Promise<void> {
       expect(await DatasetNFT_.extraFeePerPendingFragment()).to.equal(fee);
     });
 
+    it('Should DT admin switch DT service signatures to EIP-712', async function () {
+      expect(await DatasetNFT_.eip712SignaturesEnabled()).to.be.false;
+
+      await DatasetNFT_.connect(users_.dtAdmin).setEIP712SignaturesEnabled(true);
+
+      expect(await DatasetNFT_.eip712SignaturesEnabled()).to.be.true;
+    });
+
+    it('Should revert if non admin account tries to switch DT service signatures', async () => {
+      await expect(
+        DatasetNFT_.connect(users_.user).setEIP712SignaturesEnabled(true)
+      ).to.be.revertedWith(
+        `AccessControl: account ${users_.user.address.toLowerCase()} is missing role ${ZeroHash}`
+      );
+    });
+
     it('Should DT admin set a deployer beneficiary for fees', async function () {
       await DatasetNFT_.connect(users_.dtAdmin).setDeployerFeeBeneficiary(users_.dtAdmin.address);
 
@@ -1144,6 +1161,42 @@ export default async function suite(): Promise<void> {
         ).to.not.emit(DatasetNFT_, 'ManagersConfigChange');
       });
 
+      it('Should data set managers follow the template versions of the DatasetFactory', async function () {
+        const DatasetFactory = (await ethers.getContract('DatasetFactory')) as DatasetFactory;
+
+        expect(await DatasetFactory.datasetTemplateVersion(datasetId_)).to.equal(1);
+
+        const DistributionManager = await DistributionManagerFactory_.connect(
+          users_.dtAdmin
+        ).deploy();
+        const distributionManagerAddr = await DistributionManager.getAddress();
+
+        await DatasetNFT_.connect(users_.dtAdmin).grantRole(
+          constants.WHITELISTED_MANAGER_ROLE,
+          distributionManagerAddr
+        );
+        const [subscriptionManagerAddr, , verifierManagerAddr] =
+          await DatasetFactory.templateVersion(1);
+
+        await DatasetNFT_.connect(users_.datasetOwner).setManagers(datasetId_, {
+          subscriptionManager: subscriptionManagerAddr,
+          distributionManager: distributionManagerAddr,
+          verifierManager: verifierManagerAddr,
+        });
+
+        // Not registered as a template version yet
+        expect(await DatasetFactory.datasetTemplateVersion(datasetId_)).to.equal(0);
+
+        await DatasetFactory.connect(users_.dtAdmin).configure(
+          await DatasetNFT_.getAddress(),
+          subscriptionManagerAddr,
+          distributionManagerAddr,
+          verifierManagerAddr
+        );
+
+        expect(await DatasetFactory.datasetTemplateVersion(datasetId_)).to.equal(2);
+      });
+
       it('Should data set owner not deploy fragment instance if already exists', async function () {
         await expect(
           DatasetNFT_.connect(users_.datasetOwner).deployFragmentInstance(datasetId_)
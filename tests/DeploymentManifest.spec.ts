@@ -0,0 +1,118 @@
+import { DatasetNFT } from '@typechained';
+import { expect } from 'chai';
+import hre, { deployments, ethers } from 'hardhat';
+import { SIGNER_ROLE, WHITELISTED_MANAGER_ROLE } from '../utils/constants';
+import * as manifest from '../utils/manifest';
+import { setupUsers } from './utils/users';
+import { Signer } from './utils/users';
+
+async function getDeployedContracts() {
+  const contracts = {} as Record<manifest.ManifestContractName, manifest.DeployedContract>;
+  for (const name of manifest.MANIFEST_CONTRACTS) {
+    const { address, abi, transactionHash, receipt } = await deployments.get(name);
+    contracts[name] = { address, abi, transactionHash, blockNumber: receipt?.blockNumber };
+  }
+
+  return contracts;
+}
+
+async function setup() {
+  await deployments.fixture([
+    'TestToken',
+    'ProxyAdmin',
+    'FragmentNFT',
+    'DatasetNFT',
+    'DatasetManagers',
+    'DatasetVerifiers',
+    'DatasetFactory',
+  ]);
+
+  const users = await setupUsers();
+
+  return {
+    users,
+    DatasetNFT: (await ethers.getContract('DatasetNFT')) as DatasetNFT,
+    contracts: await getDeployedContracts(),
+  };
+}
+
+export default async function suite(): Promise<void> {
+  describe('DeploymentManifest', () => {
+    let snap: string;
+    let users_: Record<string, Signer>;
+    let DatasetNFT_: DatasetNFT;
+    let contracts_: Record<manifest.ManifestContractName, manifest.DeployedContract>;
+
+    before(async () => {
+      const { users, DatasetNFT, contracts } = await setup();
+
+      users_ = users;
+      DatasetNFT_ = DatasetNFT;
+      contracts_ = contracts;
+    });
+
+    beforeEach(async () => {
+      snap = await ethers.provider.send('evm_snapshot', []);
+    });
+
+    afterEach(async () => {
+      await ethers.provider.send('evm_revert', [snap]);
+    });
+
+    it('Should record the DatasetNFT proxy, its configuration and role holders', async () => {
+      const deploymentManifest = await manifest.buildDeploymentManifest(hre, contracts_);
+
+      expect(deploymentManifest.version).to.equal(manifest.MANIFEST_VERSION);
+      expect(deploymentManifest.chainId).to.equal(31337);
+
+      const { DatasetNFT: datasetNFT } = deploymentManifest.contracts;
+      expect(datasetNFT.address).to.equal(await DatasetNFT_.getAddress());
+      expect(datasetNFT.admin).to.equal(contracts_.ProxyAdmin.address);
+      expect(datasetNFT.implementation).to.equal(
+        (await deployments.get('DatasetNFT_Implementation')).address
+      );
+
+      expect(deploymentManifest.configuration.datasetFactory).to.equal(
+        contracts_.DatasetFactory.address
+      );
+      expect(deploymentManifest.configuration.fragmentImplementation).to.equal(
+        contracts_.FragmentNFT.address
+      );
+
+      expect(deploymentManifest.roles.SIGNER_ROLE).to.include(users_.dtAdmin.address);
+      expect(deploymentManifest.roles.WHITELISTED_MANAGER_ROLE).to.have.members([
+        contracts_.ERC20SubscriptionManager.address,
+        contracts_.DistributionManager.address,
+        contracts_.VerifierManager.address,
+      ]);
+    });
+
+    it('Should report no difference against an unchanged deployment', async () => {
+      const expected = await manifest.buildDeploymentManifest(hre, contracts_);
+      const live = await manifest.buildDeploymentManifest(hre, contracts_);
+
+      expect(manifest.diffDeploymentManifest(expected, live)).to.be.empty;
+    });
+
+    it('Should report the configuration and roles changed since the manifest', async () => {
+      const expected = await manifest.buildDeploymentManifest(hre, contracts_);
+
+      await DatasetNFT_.connect(users_.dtAdmin).setFragmentImplementation(
+        contracts_.AcceptAllVerifier.address
+      );
+      await DatasetNFT_.connect(users_.dtAdmin).grantRole(SIGNER_ROLE, users_.user.address);
+      await DatasetNFT_.connect(users_.dtAdmin).revokeRole(
+        WHITELISTED_MANAGER_ROLE,
+        contracts_.VerifierManager.address
+      );
+
+      const live = await manifest.buildDeploymentManifest(hre, contracts_);
+      const differences = manifest.diffDeploymentManifest(expected, live);
+
+      expect(differences).to.have.lengthOf(3);
+      expect(differences[0]).to.match(/^configuration\.fragmentImplementation: /);
+      expect(differences[1]).to.match(/^roles\.SIGNER_ROLE: /);
+      expect(differences[2]).to.match(/^roles\.WHITELISTED_MANAGER_ROLE: /);
+    });
+  });
+}
@@ -0,0 +1,74 @@
+import { DatasetFactory, ProxyAdmin } from '@typechained';
+import { expect } from 'chai';
+import hre, { deployments, ethers } from 'hardhat';
+import * as deployment from '../utils/deployment';
+import { getDeploymentSalt } from '../utils/network';
+import { setupUsers } from './utils/users';
+import { Signer } from './utils/users';
+
+const SALT = '0x6e756b6c6169';
+
+export default async function suite(): Promise<void> {
+  describe('DeterministicDeployment', () => {
+    let users_: Record<string, Signer>;
+    let predicted_: Record<deployment.DeterministicContractName, deployment.PredictedAddress>;
+
+    before(async () => {
+      process.env.DEPLOYMENT_SALT = SALT;
+
+      const { dtAdmin } = await ethers.getNamedSigners();
+      predicted_ = await deployment.predictDeterministicAddresses(hre, dtAdmin.address, SALT);
+
+      await deployments.fixture([
+        'ProxyAdmin',
+        'FragmentNFT',
+        'DatasetNFT',
+        'DatasetManagers',
+        'DatasetVerifiers',
+        'DatasetFactory',
+      ]);
+
+      users_ = await setupUsers();
+    });
+
+    after(() => {
+      delete process.env.DEPLOYMENT_SALT;
+    });
+
+    it('Should deploy the protocol contracts at the predicted addresses', async () => {
+      for (const name of deployment.DETERMINISTIC_CONTRACTS) {
+        expect((await deployments.get(name)).address).to.equal(predicted_[name].address);
+      }
+
+      expect((await deployments.get('DatasetNFT_Implementation')).address).to.equal(
+        predicted_.DatasetNFT.implementation
+      );
+    });
+
+    it('Should predict different addresses with a different salt', async () => {
+      const predicted = await deployment.predictDeterministicAddresses(
+        hre,
+        users_.dtAdmin.address,
+        '0x01'
+      );
+
+      for (const name of deployment.DETERMINISTIC_CONTRACTS) {
+        expect(predicted[name].address).to.not.equal(predicted_[name].address);
+      }
+    });
+
+    it('Should set the deployer as owner of the ProxyAdmin and DatasetFactory', async () => {
+      const proxyAdmin = (await ethers.getContract('ProxyAdmin')) as unknown as ProxyAdmin;
+      const datasetFactory = (await ethers.getContract('DatasetFactory')) as DatasetFactory;
+
+      expect(await proxyAdmin.owner()).to.equal(users_.dtAdmin.address);
+      expect(await datasetFactory.owner()).to.equal(users_.dtAdmin.address);
+    });
+
+    it('Should reject an invalid deployment salt', () => {
+      expect(() => getDeploymentSalt('nuklai')).to.throw('invalid deployment salt');
+      expect(() => getDeploymentSalt(`0x${'00'.repeat(33)}`)).to.throw('invalid deployment salt');
+      expect(getDeploymentSalt('')).to.be.undefined;
+    });
+  });
+}
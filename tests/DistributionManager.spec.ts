@@ -349,7 +349,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.datasetOwner.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address)
         )
       );
 
@@ -357,6 +358,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.user).claimDatasetOwnerPayouts(
           BigInt(validSince),
           BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.user.address),
           claimDatasetOwnerSignature
         )
       )
@@ -375,7 +377,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.datasetOwner.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address)
         )
       );
 
@@ -383,6 +386,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.user).claimDatasetOwnerAndFragmentPayouts(
           BigInt(validSince),
           BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.user.address),
           claimDatasetOwnerSignature
         )
       )
@@ -474,7 +478,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.datasetOwner.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address)
         )
       );
 
@@ -484,6 +489,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.datasetOwner).claimDatasetOwnerPayouts(
           BigInt(validSince),
           BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address),
           claimDatasetOwnerSignature
         )
       )
@@ -577,7 +583,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.datasetOwner.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address)
         )
       );
 
@@ -587,6 +594,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.datasetOwner).claimDatasetOwnerPayouts(
           BigInt(validSince),
           BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address),
           claimDatasetOwnerSignature
         )
       )
@@ -611,7 +619,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.datasetOwner.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address)
         )
       );
 
@@ -621,6 +630,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.datasetOwner).claimDatasetOwnerPayouts(
           BigInt(validSince),
           BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address),
           claimDatasetOwnerSignature
         )
       ).to.be.revertedWithCustomError(
@@ -709,7 +719,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.contributor.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
         )
       );
 
@@ -719,6 +730,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.contributor).claimDatasetOwnerPayouts(
           BigInt(validSince),
           BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           claimDatasetOwnerSignature
         )
       )
@@ -807,6 +819,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.datasetOwner).claimDatasetOwnerPayouts(
           BigInt(validSince),
           BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address),
           claimDatasetOwnerSignature
         )
       ).to.be.revertedWithCustomError(DatasetDistributionManager_, 'BAD_SIGNATURE');
@@ -895,6 +908,7 @@ export default async function suite(): Promise<void> {
         ).claimDatasetOwnerAndFragmentPayouts(
           BigInt(validSince),
           BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address),
           claimDatasetOwnerSignature
         )
       ).to.be.revertedWithCustomError(DatasetDistributionManager_, 'BAD_SIGNATURE');
@@ -979,7 +993,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.datasetOwner.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address)
         )
       );
 
@@ -990,6 +1005,7 @@ export default async function suite(): Promise<void> {
       ).claimDatasetOwnerAndFragmentPayouts(
         BigInt(validSince),
         BigInt(validTill),
+        await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address),
         claimDatasetOwnerSignature
       );
 
@@ -999,6 +1015,7 @@ export default async function suite(): Promise<void> {
         ).claimDatasetOwnerAndFragmentPayouts(
           BigInt(validSince),
           BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address),
           claimDatasetOwnerSignature
         )
       ).to.be.revertedWithCustomError(
@@ -1102,7 +1119,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.contributor.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
         )
       );
 
@@ -1118,7 +1136,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.datasetOwner.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address)
         )
       );
 
@@ -1148,7 +1167,12 @@ export default async function suite(): Promise<void> {
       await expect(
         DatasetDistributionManager_.connect(
           users_.datasetOwner
-        ).claimDatasetOwnerAndFragmentPayouts(validSince, validTill, DatasetOwnerRevenue_Signature)
+        ).claimDatasetOwnerAndFragmentPayouts(
+          validSince,
+          validTill,
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address),
+          DatasetOwnerRevenue_Signature
+        )
       )
         .to.emit(DatasetDistributionManager_, 'PayoutSent')
         .withArgs(users_.datasetOwner.address, tokenAddress, parseUnits('544.32', 18))
@@ -1171,6 +1195,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwner_Contributor_Signature
         )
       )
@@ -1258,7 +1283,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.contributor.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
         )
       );
 
@@ -1287,6 +1313,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       )
@@ -1381,6 +1408,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       ).to.be.revertedWithCustomError(DatasetDistributionManager_, 'BAD_SIGNATURE');
@@ -1464,7 +1492,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.contributor.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
         )
       );
 
@@ -1513,6 +1542,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       )
@@ -1604,7 +1634,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.contributor.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
         )
       );
 
@@ -1672,6 +1703,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       )
@@ -1765,7 +1797,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.contributor.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
         )
       );
 
@@ -1775,16 +1808,29 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       )
         .to.emit(DatasetDistributionManager_, 'PayoutSent')
         .withArgs(users_.contributor.address, tokenAddress, parseUnits('3020.976', 18));
 
+      fragmentOwnerSignature = await users_.dtAdmin.signMessage(
+        signature.getRevenueClaimMessage(
+          network.config.chainId!,
+          await DatasetDistributionManager_.getAddress(),
+          users_.contributor.address,
+          BigInt(validSince),
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
+        )
+      );
+
       await expect(
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       ).to.not.emit(DatasetDistributionManager_, 'PayoutSent');
@@ -1813,7 +1859,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.contributor.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
         )
       );
 
@@ -1830,16 +1877,29 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       )
         .to.emit(DatasetDistributionManager_, 'PayoutSent')
         .withArgs(users_.contributor.address, tokenAddress, parseUnits('12083.904', 18));
 
+      fragmentOwnerSignature = await users_.dtAdmin.signMessage(
+        signature.getRevenueClaimMessage(
+          network.config.chainId!,
+          await DatasetDistributionManager_.getAddress(),
+          users_.contributor.address,
+          BigInt(validSince),
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
+        )
+      );
+
       await expect(
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       ).to.not.emit(DatasetDistributionManager_, 'PayoutSent');
@@ -1926,7 +1986,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.datasetOwner.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address)
         )
       );
 
@@ -1936,6 +1997,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.datasetOwner).claimDatasetOwnerPayouts(
           BigInt(validSince),
           BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address),
           claimDatasetOwnerSignature
         )
       )
@@ -1973,7 +2035,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.datasetOwner.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address)
         )
       );
 
@@ -1983,6 +2046,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.datasetOwner).claimDatasetOwnerPayouts(
           BigInt(validSince),
           BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address),
           claimDatasetOwnerSignature
         )
       )
@@ -1993,10 +2057,22 @@ export default async function suite(): Promise<void> {
           parseUnits('24.192', 18) // 0.1% ownerPercentageFee :: 24192 * 0.001 = 24.192
         );
 
+      claimDatasetOwnerSignature = await users_.dtAdmin.signMessage(
+        signature.getRevenueClaimMessage(
+          network.config.chainId!,
+          await DatasetDistributionManager_.getAddress(),
+          users_.datasetOwner.address,
+          BigInt(validSince),
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address)
+        )
+      );
+
       await expect(
         DatasetDistributionManager_.connect(users_.datasetOwner).claimDatasetOwnerPayouts(
           BigInt(validSince),
           BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address),
           claimDatasetOwnerSignature
         )
       ).to.be.revertedWithCustomError(
@@ -2085,7 +2161,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.contributor.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
         )
       );
 
@@ -2106,16 +2183,29 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       )
         .to.emit(DatasetDistributionManager_, 'PayoutSent')
         .withArgs(users_.contributor.address, tokenAddress, contributorPayout);
 
+      fragmentOwnerSignature = await users_.dtAdmin.signMessage(
+        signature.getRevenueClaimMessage(
+          network.config.chainId!,
+          await DatasetDistributionManager_.getAddress(),
+          users_.contributor.address,
+          BigInt(validSince),
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
+        )
+      );
+
       await expect(
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       ).to.not.emit(DatasetDistributionManager_, 'PayoutSent');
@@ -2132,7 +2222,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.datasetOwner.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address)
         )
       );
 
@@ -2142,6 +2233,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.datasetOwner).claimDatasetOwnerPayouts(
           BigInt(validSince),
           BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address),
           claimDatasetOwnerSignature
         )
       )
@@ -2173,7 +2265,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.contributor.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
         )
       );
 
@@ -2194,16 +2287,29 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       )
         .to.emit(DatasetDistributionManager_, 'PayoutSent')
         .withArgs(users_.contributor.address, tokenAddress, contributorPayout);
 
+      fragmentOwnerSignature = await users_.dtAdmin.signMessage(
+        signature.getRevenueClaimMessage(
+          network.config.chainId!,
+          await DatasetDistributionManager_.getAddress(),
+          users_.contributor.address,
+          BigInt(validSince),
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
+        )
+      );
+
       await expect(
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       ).to.not.emit(DatasetDistributionManager_, 'PayoutSent');
@@ -2220,7 +2326,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.datasetOwner.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address)
         )
       );
 
@@ -2230,6 +2337,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.datasetOwner).claimDatasetOwnerPayouts(
           BigInt(validSince),
           BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address),
           claimDatasetOwnerSignature
         )
       )
@@ -2309,13 +2417,14 @@ export default async function suite(): Promise<void> {
       const validSince =
         Number((await ethers.provider.getBlock('latest'))?.timestamp) + 1 + constants.ONE_WEEK * 2;
       const validTill = validSince + constants.ONE_DAY;
-      const fragmentOwnerSignature = await users_.dtAdmin.signMessage(
+      let fragmentOwnerSignature = await users_.dtAdmin.signMessage(
         signature.getRevenueClaimMessage(
           network.config.chainId!,
           await DatasetDistributionManager_.getAddress(),
           users_.contributor.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
         )
       );
 
@@ -2325,21 +2434,73 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       )
         .to.emit(DatasetDistributionManager_, 'PayoutSent')
         .withArgs(users_.contributor.address, tokenAddress, parseUnits('302.0976', 18));
 
+      fragmentOwnerSignature = await users_.dtAdmin.signMessage(
+        signature.getRevenueClaimMessage(
+          network.config.chainId!,
+          await DatasetDistributionManager_.getAddress(),
+          users_.contributor.address,
+          BigInt(validSince),
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
+        )
+      );
+
       await expect(
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       ).to.not.emit(DatasetDistributionManager_, 'PayoutSent');
     });
 
+    it('Should revert if contributor replays a revenue claim signature', async function () {
+      const validSince = await time.latest();
+      const validTill = validSince + constants.ONE_DAY;
+      const nonce = await DatasetDistributionManager_.claimNonces(users_.contributor.address);
+
+      expect(nonce).to.equal(0);
+
+      const fragmentOwnerSignature = await users_.dtAdmin.signMessage(
+        signature.getRevenueClaimMessage(
+          network.config.chainId!,
+          await DatasetDistributionManager_.getAddress(),
+          users_.contributor.address,
+          BigInt(validSince),
+          BigInt(validTill),
+          nonce
+        )
+      );
+
+      await DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
+        validSince,
+        validTill,
+        nonce,
+        fragmentOwnerSignature
+      );
+
+      expect(await DatasetDistributionManager_.claimNonces(users_.contributor.address)).to.equal(1);
+
+      await expect(
+        DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
+          validSince,
+          validTill,
+          nonce,
+          fragmentOwnerSignature
+        )
+      )
+        .to.be.revertedWithCustomError(DatasetDistributionManager_, 'SIGNATURE_NONCE_INVALID')
+        .withArgs(1, 0);
+    });
+
     it('Should revert if data set owner claims revenue before locking period (two weeks)', async function () {
       const nextPendingFragmentId = (await DatasetFragment_.lastFragmentPendingId()) + 1n;
 
@@ -2419,7 +2580,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.datasetOwner.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address)
         )
       );
 
@@ -2427,6 +2589,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.datasetOwner).claimDatasetOwnerPayouts(
           BigInt(validSince),
           BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address),
           claimDatasetOwnerSignature
         )
       ).to.be.revertedWithCustomError(DatasetDistributionManager_, 'SIGNATURE_OVERDUE');
@@ -2511,7 +2674,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.datasetOwner.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address)
         )
       );
 
@@ -2519,6 +2683,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.datasetOwner).claimDatasetOwnerPayouts(
           BigInt(validSince),
           BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address),
           claimDatasetOwnerSignature
         )
       ).to.be.revertedWithCustomError(DatasetDistributionManager_, 'SIGNATURE_OVERDUE');
@@ -2603,7 +2768,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.datasetOwner.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address)
         )
       );
 
@@ -2613,6 +2779,7 @@ export default async function suite(): Promise<void> {
         ).claimDatasetOwnerAndFragmentPayouts(
           BigInt(validSince),
           BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address),
           claimDatasetOwnerSignature
         )
       ).to.be.revertedWithCustomError(DatasetDistributionManager_, 'SIGNATURE_OVERDUE');
@@ -2696,7 +2863,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.contributor.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
         )
       );
 
@@ -2704,6 +2872,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       ).to.be.revertedWithCustomError(DatasetDistributionManager_, 'SIGNATURE_OVERDUE');
@@ -2788,7 +2957,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.datasetOwner.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address)
         )
       );
 
@@ -2798,6 +2968,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.datasetOwner).claimDatasetOwnerPayouts(
           BigInt(validSince),
           BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address),
           claimDatasetOwnerSignature
         )
       ).to.be.revertedWithCustomError(DatasetDistributionManager_, 'SIGNATURE_OVERDUE');
@@ -2812,7 +2983,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.datasetOwner.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address)
         )
       );
 
@@ -2822,6 +2994,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.datasetOwner).claimDatasetOwnerPayouts(
           BigInt(validSince),
           BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address),
           claimDatasetOwnerSignature
         )
       ).to.be.revertedWithCustomError(DatasetDistributionManager_, 'SIGNATURE_OVERDUE');
@@ -2905,7 +3078,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.contributor.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
         )
       );
 
@@ -2915,6 +3089,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       ).to.be.revertedWithCustomError(DatasetDistributionManager_, 'SIGNATURE_OVERDUE');
@@ -2928,7 +3103,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.contributor.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
         )
       );
 
@@ -2938,6 +3114,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       ).to.be.revertedWithCustomError(DatasetDistributionManager_, 'SIGNATURE_OVERDUE');
@@ -3100,7 +3277,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.contributor.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
         )
       );
 
@@ -3146,16 +3324,29 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       )
         .to.emit(DatasetDistributionManager_, 'PayoutSent')
         .withArgs(users_.contributor.address, tokenAddress, contributorPayout);
 
+      fragmentOwnerSignature = await users_.dtAdmin.signMessage(
+        signature.getRevenueClaimMessage(
+          network.config.chainId!,
+          await DatasetDistributionManager_.getAddress(),
+          users_.contributor.address,
+          BigInt(validSince),
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
+        )
+      );
+
       await expect(
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       ).to.not.emit(DatasetDistributionManager_, 'PayoutSent');
@@ -3189,7 +3380,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.user.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.user.address)
         )
       );
 
@@ -3221,7 +3413,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.contributor.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
         )
       );
 
@@ -3242,16 +3435,29 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       )
         .to.emit(DatasetDistributionManager_, 'PayoutSent')
         .withArgs(users_.contributor.address, tokenAddress, contributorPayout);
 
+      fragmentOwnerSignature = await users_.dtAdmin.signMessage(
+        signature.getRevenueClaimMessage(
+          network.config.chainId!,
+          await DatasetDistributionManager_.getAddress(),
+          users_.contributor.address,
+          BigInt(validSince),
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
+        )
+      );
+
       await expect(
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       ).to.not.emit(DatasetDistributionManager_, 'PayoutSent');
@@ -3263,7 +3469,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.user.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.user.address)
         )
       );
       contributorPayout = parseUnits('438.75', 18);
@@ -3281,16 +3488,29 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.user).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.user.address),
           fragmentOwnerSignature
         )
       )
         .to.emit(DatasetDistributionManager_, 'PayoutSent')
         .withArgs(users_.user.address, tokenAddress, contributorPayout);
 
+      fragmentOwnerSignature = await users_.dtAdmin.signMessage(
+        signature.getRevenueClaimMessage(
+          network.config.chainId!,
+          await DatasetDistributionManager_.getAddress(),
+          users_.user.address,
+          BigInt(validSince),
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.user.address)
+        )
+      );
+
       await expect(
         DatasetDistributionManager_.connect(users_.user).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.user.address),
           fragmentOwnerSignature
         )
       ).to.not.emit(DatasetDistributionManager_, 'PayoutSent');
@@ -3379,7 +3599,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.contributor.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
         )
       );
 
@@ -3425,16 +3646,29 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       )
         .to.emit(DatasetDistributionManager_, 'PayoutSent')
         .withArgs(users_.contributor.address, tokenAddress, contributorPayout);
 
+      fragmentOwnerSignature = await users_.dtAdmin.signMessage(
+        signature.getRevenueClaimMessage(
+          network.config.chainId!,
+          await DatasetDistributionManager_.getAddress(),
+          users_.contributor.address,
+          BigInt(validSince),
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
+        )
+      );
+
       await expect(
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       ).to.not.emit(DatasetDistributionManager_, 'PayoutSent');
@@ -3468,7 +3702,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.user.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.user.address)
         )
       );
 
@@ -3500,7 +3735,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.contributor.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
         )
       );
 
@@ -3521,6 +3757,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       )
@@ -3531,10 +3768,22 @@ export default async function suite(): Promise<void> {
           parseUnits('292.499999999999999707', 18)
         );
 
+      fragmentOwnerSignature = await users_.dtAdmin.signMessage(
+        signature.getRevenueClaimMessage(
+          network.config.chainId!,
+          await DatasetDistributionManager_.getAddress(),
+          users_.contributor.address,
+          BigInt(validSince),
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
+        )
+      );
+
       await expect(
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       ).to.not.emit(DatasetDistributionManager_, 'PayoutSent');
@@ -3546,7 +3795,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.user.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.user.address)
         )
       );
       contributorPayout = parseUnits('292.499999999999999707', 18);
@@ -3564,16 +3814,29 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.user).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.user.address),
           fragmentOwnerSignature
         )
       )
         .to.emit(DatasetDistributionManager_, 'PayoutSent')
         .withArgs(users_.user.address, tokenAddress, parseUnits('292.499999999999999707', 18));
 
+      fragmentOwnerSignature = await users_.dtAdmin.signMessage(
+        signature.getRevenueClaimMessage(
+          network.config.chainId!,
+          await DatasetDistributionManager_.getAddress(),
+          users_.user.address,
+          BigInt(validSince),
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.user.address)
+        )
+      );
+
       await expect(
         DatasetDistributionManager_.connect(users_.user).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.user.address),
           fragmentOwnerSignature
         )
       ).to.not.emit(DatasetDistributionManager_, 'PayoutSent');
@@ -3585,7 +3848,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.datasetOwner.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address)
         )
       );
 
@@ -3604,7 +3868,12 @@ export default async function suite(): Promise<void> {
       await expect(
         DatasetDistributionManager_.connect(
           users_.datasetOwner
-        ).claimDatasetOwnerAndFragmentPayouts(validSince, validTill, fragmentOwnerSignature)
+        ).claimDatasetOwnerAndFragmentPayouts(
+          validSince,
+          validTill,
+          await DatasetDistributionManager_.claimNonces(users_.datasetOwner.address),
+          fragmentOwnerSignature
+        )
       )
         .to.emit(DatasetDistributionManager_, 'PayoutSent')
         .withArgs(users_.datasetOwner.address, tokenAddress, parseUnits('1950', 18))
@@ -3694,7 +3963,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.contributor.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
         )
       );
 
@@ -3733,7 +4003,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.contributor.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
         )
       );
 
@@ -3772,7 +4043,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.user.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.user.address)
         )
       );
 
@@ -3819,16 +4091,29 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.user).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.user.address),
           fragmentOwnerSignature
         )
       )
         .to.emit(DatasetDistributionManager_, 'PayoutSent')
         .withArgs(users_.user.address, tokenAddress, contributorPayout);
 
+      fragmentOwnerSignature = await users_.dtAdmin.signMessage(
+        signature.getRevenueClaimMessage(
+          network.config.chainId!,
+          await DatasetDistributionManager_.getAddress(),
+          users_.user.address,
+          BigInt(validSince),
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.user.address)
+        )
+      );
+
       await expect(
         DatasetDistributionManager_.connect(users_.user).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.user.address),
           fragmentOwnerSignature
         )
       ).to.not.emit(DatasetDistributionManager_, 'PayoutSent');
@@ -3862,7 +4147,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.user.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.user.address)
         )
       );
 
@@ -3894,7 +4180,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.user.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.user.address)
         )
       );
 
@@ -3915,16 +4202,29 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.user).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.user.address),
           fragmentOwnerSignature
         )
       )
         .to.emit(DatasetDistributionManager_, 'PayoutSent')
         .withArgs(users_.user.address, tokenAddress, parseUnits('3.25', 18));
 
+      fragmentOwnerSignature = await users_.dtAdmin.signMessage(
+        signature.getRevenueClaimMessage(
+          network.config.chainId!,
+          await DatasetDistributionManager_.getAddress(),
+          users_.user.address,
+          BigInt(validSince),
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.user.address)
+        )
+      );
+
       await expect(
         DatasetDistributionManager_.connect(users_.user).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.user.address),
           fragmentOwnerSignature
         )
       ).to.not.emit(DatasetDistributionManager_, 'PayoutSent');
@@ -4003,7 +4303,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.contributor.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
         )
       );
 
@@ -4042,7 +4343,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.user.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.user.address)
         )
       );
 
@@ -4078,7 +4380,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.contributor.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
         )
       );
       let contributorPayout = parseUnits('2.099999999999999997', 18);
@@ -4097,16 +4400,29 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       )
         .to.emit(DatasetDistributionManager_, 'PayoutSent')
         .withArgs(users_.contributor.address, tokenAddress, contributorPayout);
 
+      fragmentOwnerSignature = await users_.dtAdmin.signMessage(
+        signature.getRevenueClaimMessage(
+          network.config.chainId!,
+          await DatasetDistributionManager_.getAddress(),
+          users_.contributor.address,
+          BigInt(validSince),
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
+        )
+      );
+
       await expect(
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       ).to.not.emit(DatasetDistributionManager_, 'PayoutSent');
@@ -4118,7 +4434,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.user.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.user.address)
         )
       );
       contributorPayout = parseUnits('2.099999999999999997', 18);
@@ -4136,16 +4453,29 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.user).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.user.address),
           fragmentOwnerSignature
         )
       )
         .to.emit(DatasetDistributionManager_, 'PayoutSent')
         .withArgs(users_.user.address, tokenAddress, contributorPayout);
 
+      fragmentOwnerSignature = await users_.dtAdmin.signMessage(
+        signature.getRevenueClaimMessage(
+          network.config.chainId!,
+          await DatasetDistributionManager_.getAddress(),
+          users_.user.address,
+          BigInt(validSince),
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.user.address)
+        )
+      );
+
       await expect(
         DatasetDistributionManager_.connect(users_.user).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.user.address),
           fragmentOwnerSignature
         )
       ).to.not.emit(DatasetDistributionManager_, 'PayoutSent');
@@ -4179,7 +4509,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.consumer.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.consumer.address)
         )
       );
 
@@ -4211,7 +4542,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.contributor.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
         )
       );
       contributorPayout = parseUnits('2.25', 18);
@@ -4230,16 +4562,29 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       )
         .to.emit(DatasetDistributionManager_, 'PayoutSent')
         .withArgs(users_.contributor.address, tokenAddress, contributorPayout);
 
+      fragmentOwnerSignature = await users_.dtAdmin.signMessage(
+        signature.getRevenueClaimMessage(
+          network.config.chainId!,
+          await DatasetDistributionManager_.getAddress(),
+          users_.contributor.address,
+          BigInt(validSince),
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
+        )
+      );
+
       await expect(
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       ).to.not.emit(DatasetDistributionManager_, 'PayoutSent');
@@ -4251,7 +4596,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.user.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.user.address)
         )
       );
       contributorPayout = parseUnits('2.25', 18);
@@ -4269,16 +4615,29 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.user).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.user.address),
           fragmentOwnerSignature
         )
       )
         .to.emit(DatasetDistributionManager_, 'PayoutSent')
         .withArgs(users_.user.address, tokenAddress, contributorPayout);
 
+      fragmentOwnerSignature = await users_.dtAdmin.signMessage(
+        signature.getRevenueClaimMessage(
+          network.config.chainId!,
+          await DatasetDistributionManager_.getAddress(),
+          users_.user.address,
+          BigInt(validSince),
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.user.address)
+        )
+      );
+
       await expect(
         DatasetDistributionManager_.connect(users_.user).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.user.address),
           fragmentOwnerSignature
         )
       ).to.not.emit(DatasetDistributionManager_, 'PayoutSent');
@@ -4290,7 +4649,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.consumer.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.consumer.address)
         )
       );
       contributorPayout = parseUnits('2.25', 18);
@@ -4308,16 +4668,29 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.consumer).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.consumer.address),
           fragmentOwnerSignature
         )
       )
         .to.emit(DatasetDistributionManager_, 'PayoutSent')
         .withArgs(users_.consumer.address, tokenAddress, parseUnits('2.25'));
 
+      fragmentOwnerSignature = await users_.dtAdmin.signMessage(
+        signature.getRevenueClaimMessage(
+          network.config.chainId!,
+          await DatasetDistributionManager_.getAddress(),
+          users_.consumer.address,
+          BigInt(validSince),
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.consumer.address)
+        )
+      );
+
       await expect(
         DatasetDistributionManager_.connect(users_.consumer).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.consumer.address),
           fragmentOwnerSignature
         )
       ).to.not.emit(DatasetDistributionManager_, 'PayoutSent');
@@ -4392,7 +4765,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.contributor.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
         )
       );
 
@@ -4413,6 +4787,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       )
@@ -4489,7 +4864,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.contributor.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
         )
       );
 
@@ -4510,6 +4886,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       )
@@ -4588,7 +4965,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.contributor.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
         )
       );
 
@@ -4604,6 +4982,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       )
@@ -4643,10 +5022,22 @@ export default async function suite(): Promise<void> {
       );
 
       // Contributor 1 now should be able to claim some revenue, someone subscribed after the fragment approval
+      fragmentOwnerSignature = await users_.dtAdmin.signMessage(
+        signature.getRevenueClaimMessage(
+          network.config.chainId!,
+          await DatasetDistributionManager_.getAddress(),
+          users_.contributor.address,
+          BigInt(validSince),
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
+        )
+      );
+
       await expect(
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       )
@@ -4663,7 +5054,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.user.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.user.address)
         )
       );
 
@@ -4679,6 +5071,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.user).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.user.address),
           fragmentOwnerSignature
         )
       )
@@ -4759,7 +5152,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.contributor.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
         )
       );
 
@@ -4775,6 +5169,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       )
@@ -4827,10 +5222,22 @@ export default async function suite(): Promise<void> {
           contributorPayout
         )
       ).to.equal('Success: checks passed');
+      fragmentOwnerSignature = await users_.dtAdmin.signMessage(
+        signature.getRevenueClaimMessage(
+          network.config.chainId!,
+          await DatasetDistributionManager_.getAddress(),
+          users_.contributor.address,
+          BigInt(validSince),
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
+        )
+      );
+
       await expect(
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       )
@@ -4847,7 +5254,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.user.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.user.address)
         )
       );
 
@@ -4863,6 +5271,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.user).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.user.address),
           fragmentOwnerSignature
         )
       )
@@ -4891,7 +5300,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.contributor.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
         )
       );
       contributorPayout = parseUnits('3.15', 18);
@@ -4909,6 +5319,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       )
@@ -4922,7 +5333,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.user.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.user.address)
         )
       );
       contributorPayout = parseUnits('3.15', 18);
@@ -4940,6 +5352,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.user).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.user.address),
           fragmentOwnerSignature
         )
       )
@@ -5018,7 +5431,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.contributor.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
         )
       );
 
@@ -5034,6 +5448,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       )
@@ -5073,10 +5488,22 @@ export default async function suite(): Promise<void> {
       );
 
       // Contributor 1 should not be able to claim revenue because fragment proposal was rejected even if there are more subscriptions
+      fragmentOwnerSignature = await users_.dtAdmin.signMessage(
+        signature.getRevenueClaimMessage(
+          network.config.chainId!,
+          await DatasetDistributionManager_.getAddress(),
+          users_.contributor.address,
+          BigInt(validSince),
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address)
+        )
+      );
+
       await expect(
         DatasetDistributionManager_.connect(users_.contributor).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.contributor.address),
           fragmentOwnerSignature
         )
       )
@@ -5093,7 +5520,8 @@ export default async function suite(): Promise<void> {
           await DatasetDistributionManager_.getAddress(),
           users_.user.address,
           BigInt(validSince),
-          BigInt(validTill)
+          BigInt(validTill),
+          await DatasetDistributionManager_.claimNonces(users_.user.address)
         )
       );
 
@@ -5109,6 +5537,7 @@ export default async function suite(): Promise<void> {
         DatasetDistributionManager_.connect(users_.user).claimPayouts(
           validSince,
           validTill,
+          await DatasetDistributionManager_.claimNonces(users_.user.address),
           fragmentOwnerSignature
         )
       )
@@ -0,0 +1,237 @@
+import { expect } from 'chai';
+import { deployments, ethers, network } from 'hardhat';
+import { AcceptManuallyVerifier, DatasetNFT } from '@typechained';
+import { parseUnits } from 'ethers';
+import { appendFileSync, existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Indexer, JsonStore } from '../indexer';
+import { NuklaiClient } from '../sdk';
+import { APPROVED_TOKEN_ROLE } from '../utils/constants';
+import { signature } from './utils';
+import { encodeTag, getUuidHash } from './utils/utils';
+import { setupUsers, Signer } from './utils/users';
+
+const setup = async () => {
+  await deployments.fixture([
+    'ProxyAdmin',
+    'FragmentNFT',
+    'DatasetNFT',
+    'DatasetManagers',
+    'DatasetVerifiers',
+    'DatasetFactory',
+    'TestToken',
+  ]);
+
+  const users = await setupUsers();
+
+  const DatasetNFT = (await ethers.getContract('DatasetNFT')) as DatasetNFT;
+  const AcceptManuallyVerifier = (await ethers.getContract(
+    'AcceptManuallyVerifier'
+  )) as AcceptManuallyVerifier;
+
+  await DatasetNFT.grantRole(APPROVED_TOKEN_ROLE, await users.datasetOwner.Token!.getAddress());
+
+  return {
+    users,
+    DatasetNFT,
+    AcceptManuallyVerifier,
+  };
+};
+
+export default async function suite(): Promise<void> {
+  describe('Indexer', () => {
+    let snap: string;
+    let users_: Record<string, Signer>;
+    let DatasetNFT_: DatasetNFT;
+    let AcceptManuallyVerifier_: AcceptManuallyVerifier;
+    let client_: NuklaiClient;
+    let fromBlock_: number;
+
+    const mintDataset = async () => {
+      const uuid = uuidv4();
+
+      return client_.connect(users_.datasetOwner).mintDataset({
+        uuid,
+        owner: users_.datasetOwner.address,
+        signature: await users_.dtAdmin.signMessage(
+          signature.getDatasetMintMessage(
+            network.config.chainId!,
+            await DatasetNFT_.getAddress(),
+            getUuidHash(uuid),
+            users_.datasetOwner.address
+          )
+        ),
+        defaultVerifier: await AcceptManuallyVerifier_.getAddress(),
+        feeToken: await users_.datasetOwner.Token!.getAddress(),
+        feePerConsumerPerDay: parseUnits('0.1', 18),
+        datasetOwnerPercentage: parseUnits('0.1', 18),
+        tags: ['tag'],
+        weights: [parseUnits('1', 18)],
+      });
+    };
+
+    const contribute = async (datasetId: bigint) => {
+      const { fragmentNFT } = await client_.getDatasetContracts(datasetId);
+      const { fragmentId } = await client_.connect(users_.contributor).proposeFragment({
+        datasetId,
+        to: users_.contributor.address,
+        tag: 'tag',
+        signature: await users_.dtAdmin.signMessage(
+          signature.getDatasetFragmentProposeMessage(
+            network.config.chainId!,
+            await DatasetNFT_.getAddress(),
+            datasetId,
+            (await fragmentNFT.lastFragmentPendingId()) + 1n,
+            users_.contributor.address,
+            encodeTag('tag')
+          )
+        ),
+      });
+
+      await client_.connect(users_.datasetOwner).resolveFragment({
+        datasetId,
+        fragmentId,
+        accept: true,
+      });
+    };
+
+    const createIndexer = (store = new JsonStore()) =>
+      new Indexer(DatasetNFT_.target as string, ethers.provider, store, {
+        fromBlock: fromBlock_,
+        batchSize: 3,
+      });
+
+    before(async () => {
+      const { users, DatasetNFT, AcceptManuallyVerifier } = await setup();
+
+      users_ = users;
+      DatasetNFT_ = DatasetNFT;
+      AcceptManuallyVerifier_ = AcceptManuallyVerifier;
+      client_ = new NuklaiClient(await DatasetNFT.getAddress(), users.user);
+    });
+
+    beforeEach(async () => {
+      snap = await ethers.provider.send('evm_snapshot', []);
+      fromBlock_ = (await ethers.provider.getBlockNumber()) + 1;
+    });
+
+    afterEach(async () => {
+      await ethers.provider.send('evm_revert', [snap]);
+    });
+
+    it('Should index events of discovered Dataset instances', async function () {
+      const dataset = await mintDataset();
+      await contribute(dataset.datasetId);
+      await client_
+        .connect(users_.subscriber)
+        .subscribe({ datasetId: dataset.datasetId, durationInDays: 1, consumers: 1 });
+
+      const store = new JsonStore();
+      const checkpoint = await createIndexer(store).sync();
+
+      expect(checkpoint).to.equal(await ethers.provider.getBlockNumber());
+      expect(
+        (await store.getContracts()).map((contract) => [contract.kind, contract.address])
+      ).to.have.deep.members([
+        ['FragmentNFT', dataset.fragmentNFT],
+        ['SubscriptionManager', dataset.subscriptionManager],
+        ['DistributionManager', dataset.distributionManager],
+        ['VerifierManager', dataset.verifierManager],
+      ]);
+
+      const datasetId = dataset.datasetId.toString();
+      const events = await store.getEvents({ datasetId });
+
+      expect(events.map((event) => `${event.contract}.${event.name}`)).to.deep.equal([
+        'DatasetNFT.Transfer',
+        'DatasetNFT.FragmentInstanceDeployment',
+        'DatasetNFT.ManagersConfigChange',
+        'VerifierManager.FragmentTagDefaultVerifierSet',
+        'DatasetNFT.Transfer',
+        'FragmentNFT.FragmentPending',
+        'VerifierManager.FragmentPending',
+        'FragmentNFT.FragmentAccepted',
+        'VerifierManager.FragmentResolved',
+        'DistributionManager.PaymentReceived',
+        'SubscriptionManager.SubscriptionPaid',
+      ]);
+      const DatasetFactory = await ethers.getContract('DatasetFactory');
+
+      // Minted to the DatasetFactory, which transfers it to the owner once configured
+      expect(events[4].args).to.deep.equal({
+        from: await DatasetFactory.getAddress(),
+        to: users_.datasetOwner.address,
+        tokenId: datasetId,
+      });
+      expect((await store.getEvents({ name: 'FragmentAccepted' }))[0].args).to.deep.equal({
+        id: '1',
+      });
+    });
+
+    it('Should resume indexing from the persisted checkpoint', async function () {
+      const dir = mkdtempSync(join(tmpdir(), 'nuklai-indexer-'));
+      const path = join(dir, 'events.jsonl');
+
+      try {
+        const dataset = await mintDataset();
+        const firstCheckpoint = await createIndexer(new JsonStore(path)).sync();
+
+        expect(existsSync(path)).to.be.true;
+
+        await contribute(dataset.datasetId);
+
+        const store = new JsonStore(path);
+        expect(await store.getCheckpoint()).to.equal(firstCheckpoint);
+
+        await createIndexer(store).sync();
+
+        const events = await new JsonStore(path).getEvents({ contract: 'FragmentNFT' });
+        expect(events.map((event) => event.name)).to.deep.equal([
+          'FragmentPending',
+          'FragmentAccepted',
+        ]);
+        expect(await createIndexer(store).sync()).to.equal(await ethers.provider.getBlockNumber());
+        expect((await store.getEvents()).length).to.equal(
+          (await new JsonStore(path).getEvents()).length
+        );
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('Should append each batch and drop a batch left incomplete by an interrupted commit', async function () {
+      const dir = mkdtempSync(join(tmpdir(), 'nuklai-indexer-'));
+      const path = join(dir, 'events.jsonl');
+
+      try {
+        await mintDataset();
+        await createIndexer(new JsonStore(path)).sync();
+        const checkpoint = await ethers.provider.getBlockNumber();
+        const committed = readFileSync(path, 'utf8');
+
+        await new JsonStore(path).commit({ events: [], contracts: [], checkpoint: checkpoint + 1 });
+        expect(readFileSync(path, 'utf8')).to.equal(
+          committed +
+            JSON.stringify({ events: [], contracts: [], checkpoint: checkpoint + 1 }) +
+            '\n'
+        );
+
+        appendFileSync(path, '{"events":[{"name":"Trans');
+
+        const store = new JsonStore(path);
+        expect(await store.getCheckpoint()).to.equal(checkpoint + 1);
+        expect(readFileSync(path, 'utf8').endsWith('\n')).to.be.true;
+
+        await store.commit({ events: [], contracts: [], checkpoint: checkpoint + 2 });
+        expect(await new JsonStore(path).getCheckpoint()).to.equal(checkpoint + 2);
+        expect((await new JsonStore(path).getEvents()).length).to.equal(
+          (await store.getEvents()).length
+        );
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+}
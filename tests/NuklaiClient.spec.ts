@@ -0,0 +1,462 @@
+import { expect } from 'chai';
+import { deployments, ethers, network } from 'hardhat';
+import { AcceptManuallyVerifier, DatasetNFT } from '@typechained';
+import { parseUnits } from 'ethers';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { v4 as uuidv4 } from 'uuid';
+import { ClaimType, NuklaiClient, NuklaiError, decodeNuklaiError, decodeRevertData } from '../sdk';
+import { ERC20SubscriptionManager__factory } from '../typechain-types';
+import { APPROVED_TOKEN_ROLE } from '../utils/constants';
+import { constants, signature } from './utils';
+import { encodeTag, getUuidHash } from './utils/utils';
+import { setupUsers, Signer } from './utils/users';
+
+const setup = async () => {
+  await deployments.fixture([
+    'ProxyAdmin',
+    'FragmentNFT',
+    'DatasetNFT',
+    'DatasetManagers',
+    'DatasetVerifiers',
+    'DatasetFactory',
+    'TestToken',
+  ]);
+
+  const users = await setupUsers();
+
+  const DatasetNFT = (await ethers.getContract('DatasetNFT')) as DatasetNFT;
+  const AcceptManuallyVerifier = (await ethers.getContract(
+    'AcceptManuallyVerifier'
+  )) as AcceptManuallyVerifier;
+
+  await DatasetNFT.grantRole(APPROVED_TOKEN_ROLE, await users.datasetOwner.Token!.getAddress());
+
+  return {
+    users,
+    DatasetNFT,
+    AcceptManuallyVerifier,
+  };
+};
+
+export default async function suite(): Promise<void> {
+  describe('NuklaiClient', () => {
+    let snap: string;
+    let users_: Record<string, Signer>;
+    let DatasetNFT_: DatasetNFT;
+    let AcceptManuallyVerifier_: AcceptManuallyVerifier;
+    let client_: NuklaiClient;
+
+    const mintDataset = async (extraFeePerPendingFragment = false) => {
+      const uuid = uuidv4();
+
+      const mintSignature = await users_.dtAdmin.signMessage(
+        signature.getDatasetMintMessage(
+          network.config.chainId!,
+          await DatasetNFT_.getAddress(),
+          getUuidHash(uuid),
+          users_.datasetOwner.address
+        )
+      );
+
+      return client_.connect(users_.datasetOwner).mintDataset({
+        uuid,
+        owner: users_.datasetOwner.address,
+        signature: mintSignature,
+        defaultVerifier: await AcceptManuallyVerifier_.getAddress(),
+        feeToken: await users_.datasetOwner.Token!.getAddress(),
+        feePerConsumerPerDay: parseUnits('0.1', 18),
+        datasetOwnerPercentage: parseUnits('0.1', 18),
+        tags: ['tag'],
+        weights: [parseUnits('1', 18)],
+        extraFeePerPendingFragment,
+      });
+    };
+
+    const proposeFragment = async (datasetId: bigint) => {
+      const { fragmentNFT } = await client_.getDatasetContracts(datasetId);
+
+      const proposeSignature = await users_.dtAdmin.signMessage(
+        signature.getDatasetFragmentProposeMessage(
+          network.config.chainId!,
+          await DatasetNFT_.getAddress(),
+          datasetId,
+          (await fragmentNFT.lastFragmentPendingId()) + 1n,
+          users_.contributor.address,
+          encodeTag('tag')
+        )
+      );
+
+      return client_.connect(users_.contributor).proposeFragment({
+        datasetId,
+        to: users_.contributor.address,
+        tag: 'tag',
+        signature: proposeSignature,
+      });
+    };
+
+    before(async () => {
+      const { users, DatasetNFT, AcceptManuallyVerifier } = await setup();
+
+      users_ = users;
+      DatasetNFT_ = DatasetNFT;
+      AcceptManuallyVerifier_ = AcceptManuallyVerifier;
+      client_ = new NuklaiClient(await DatasetNFT.getAddress(), users.user);
+    });
+
+    beforeEach(async () => {
+      snap = await ethers.provider.send('evm_snapshot', []);
+    });
+
+    afterEach(async () => {
+      await ethers.provider.send('evm_revert', [snap]);
+    });
+
+    it('Should mint a data set and resolve its managers', async function () {
+      const result = await mintDataset();
+
+      expect(await DatasetNFT_.fragments(result.datasetId)).to.equal(result.fragmentNFT);
+      expect(await DatasetNFT_.ownerOf(result.datasetId)).to.equal(users_.datasetOwner.address);
+
+      const contracts = await client_.getDatasetContracts(result.datasetId);
+
+      expect(await contracts.fragmentNFT.getAddress()).to.equal(result.fragmentNFT);
+      expect(await contracts.subscriptionManager.getAddress()).to.equal(result.subscriptionManager);
+      expect(await contracts.distributionManager.getAddress()).to.equal(result.distributionManager);
+      expect(await contracts.verifierManager.getAddress()).to.equal(result.verifierManager);
+    });
+
+    it('Should propose a fragment paying the extra fee and resolve it', async function () {
+      await DatasetNFT_.setExtraFeePerPendingFragment(parseUnits('0.05', 18));
+      const { datasetId } = await mintDataset(true);
+
+      const ownerBalanceBefore = await ethers.provider.getBalance(users_.datasetOwner.address);
+      const { fragmentId } = await proposeFragment(datasetId);
+
+      expect(fragmentId).to.equal(1n);
+      expect(await ethers.provider.getBalance(users_.datasetOwner.address)).to.equal(
+        ownerBalanceBefore + parseUnits('0.05', 18)
+      );
+
+      await client_.connect(users_.datasetOwner).resolveFragment({
+        datasetId,
+        fragmentId,
+        accept: true,
+      });
+
+      const { fragmentNFT } = await client_.getDatasetContracts(datasetId);
+
+      expect(await fragmentNFT.ownerOf(fragmentId)).to.equal(users_.contributor.address);
+    });
+
+    it('Should propose many fragments paying the extra fee for each of them', async function () {
+      await DatasetNFT_.setExtraFeePerPendingFragment(parseUnits('0.05', 18));
+      const { datasetId } = await mintDataset(true);
+      await proposeFragment(datasetId);
+
+      const owners = [users_.contributor.address, users_.user.address];
+      const tags = ['tag', 'tag'];
+
+      const proposeManySignature = await users_.dtAdmin.signMessage(
+        signature.getDatasetFragmentProposeBatchMessage(
+          network.config.chainId!,
+          await DatasetNFT_.getAddress(),
+          datasetId,
+          2n,
+          3n,
+          owners,
+          tags.map(encodeTag)
+        )
+      );
+
+      const ownerBalanceBefore = await ethers.provider.getBalance(users_.datasetOwner.address);
+      const { fragmentIds } = await client_.connect(users_.contributor).proposeManyFragments({
+        datasetId,
+        owners,
+        tags,
+        signature: proposeManySignature,
+      });
+
+      expect(fragmentIds).to.deep.equal([2n, 3n]);
+      expect(await ethers.provider.getBalance(users_.datasetOwner.address)).to.equal(
+        ownerBalanceBefore + parseUnits('0.1', 18)
+      );
+
+      const { fragmentNFT } = await client_.getDatasetContracts(datasetId);
+
+      expect(await fragmentNFT.pendingFragmentOwners(3n)).to.equal(users_.user.address);
+    });
+
+    it('Should resolve many fragments through their verifier', async function () {
+      const { datasetId } = await mintDataset();
+      await proposeFragment(datasetId);
+      await proposeFragment(datasetId);
+
+      const { receipts } = await client_.connect(users_.datasetOwner).resolveManyFragments({
+        datasetId,
+        fragmentIds: [1n, 2n],
+        accept: true,
+      });
+
+      expect([...receipts.keys()]).to.deep.equal([await AcceptManuallyVerifier_.getAddress()]);
+
+      const { fragmentNFT } = await client_.getDatasetContracts(datasetId);
+
+      expect(await fragmentNFT.ownerOf(1n)).to.equal(users_.contributor.address);
+      expect(await fragmentNFT.ownerOf(2n)).to.equal(users_.contributor.address);
+    });
+
+    it('Should subscribe, extend the subscription and add consumers', async function () {
+      const { datasetId } = await mintDataset();
+      const subscriberClient = client_.connect(users_.subscriber);
+
+      const { subscriptionId, fee } = await subscriberClient.subscribe({
+        datasetId,
+        durationInDays: 7,
+        consumers: 1,
+      });
+
+      expect(fee).to.equal(parseUnits('0.7', 18));
+
+      await subscriberClient.extendSubscription({
+        datasetId,
+        subscriptionId,
+        extraDurationInDays: 0,
+        extraConsumers: 1,
+        maxExtraFee: parseUnits('0.7', 18),
+      });
+
+      await subscriberClient.addConsumers({
+        datasetId,
+        subscriptionId,
+        consumers: [users_.consumer.address, users_.secondConsumer.address],
+      });
+
+      const { subscriptionManager } = await client_.getDatasetContracts(datasetId);
+
+      expect(await subscriptionManager.isSubscriptionPaidFor(datasetId, users_.consumer.address)).to
+        .be.true;
+      expect(
+        await subscriptionManager.isSubscriptionPaidFor(datasetId, users_.secondConsumer.address)
+      ).to.be.true;
+    });
+
+    it('Should quote extensions, replace and remove consumers and return the subscription status', async function () {
+      const { datasetId } = await mintDataset();
+      const subscriberClient = client_.connect(users_.subscriber);
+
+      const { subscriptionId } = await subscriberClient.subscribe({
+        datasetId,
+        durationInDays: 7,
+        consumers: [users_.consumer.address],
+      });
+
+      expect(
+        await subscriberClient.quoteExtendSubscription({
+          datasetId,
+          subscriptionId,
+          extraDurationInDays: 3,
+          extraConsumers: 1,
+        })
+      ).to.equal(parseUnits('1.3', 18));
+
+      await subscriberClient.extendSubscription({
+        datasetId,
+        subscriptionId,
+        extraDurationInDays: 3,
+        extraConsumers: [users_.secondConsumer.address],
+      });
+
+      await subscriberClient.replaceConsumers({
+        datasetId,
+        subscriptionId,
+        oldConsumers: [users_.consumer.address],
+        newConsumers: [users_.user.address],
+      });
+      await subscriberClient.removeConsumers({
+        datasetId,
+        subscriptionId,
+        consumers: [users_.secondConsumer.address],
+      });
+
+      const status = await client_.getSubscription({ datasetId, subscriptionId });
+
+      expect(status.owner).to.equal(users_.subscriber.address);
+      expect(status.validTill - status.validSince).to.equal(BigInt(constants.ONE_DAY * 10));
+      expect(status.paidConsumers).to.equal(2n);
+      expect(status.consumers).to.deep.equal([users_.user.address]);
+      expect(status.active).to.be.true;
+    });
+
+    it('Should throw if the subscription was paid before the block to look it up from', async function () {
+      const { datasetId } = await mintDataset();
+
+      const { subscriptionId, receipt } = await client_.connect(users_.subscriber).subscribe({
+        datasetId,
+        durationInDays: 7,
+        consumers: 1,
+      });
+      const fromBlock = receipt.blockNumber + 1;
+      // Hardhat ignores a fromBlock past the latest block
+      await ethers.provider.send('evm_mine', []);
+
+      await expect(
+        client_.getSubscription({ datasetId, subscriptionId, fromBlock })
+      ).to.be.rejectedWith(
+        `No SubscriptionPaid event for subscription ${subscriptionId} since block ${fromBlock}`
+      );
+    });
+
+    it('Should claim contributor and data set owner payouts', async function () {
+      const { datasetId, distributionManager } = await mintDataset();
+      const { fragmentId } = await proposeFragment(datasetId);
+      await client_.connect(users_.datasetOwner).resolveFragment({
+        datasetId,
+        fragmentId,
+        accept: true,
+      });
+
+      await client_.connect(users_.subscriber).subscribe({
+        datasetId,
+        durationInDays: 1,
+        consumers: [users_.consumer.address],
+      });
+
+      const validSince = await time.latest();
+      const validTill = validSince + constants.ONE_DAY;
+
+      const contributorSignature = await users_.dtAdmin.signMessage(
+        signature.getRevenueClaimMessage(
+          network.config.chainId!,
+          distributionManager,
+          users_.contributor.address,
+          BigInt(validSince),
+          BigInt(validTill),
+          0n
+        )
+      );
+
+      const { payouts: contributorPayouts } = await client_
+        .connect(users_.contributor)
+        .claimPayouts({
+          datasetId,
+          sigValidSince: validSince,
+          sigValidTill: validTill,
+          signature: contributorSignature,
+        });
+
+      expect(contributorPayouts).to.deep.equal([
+        {
+          to: users_.contributor.address,
+          token: await users_.contributor.Token!.getAddress(),
+          amount: parseUnits('0.09', 18),
+        },
+      ]);
+
+      const ownerSignature = await users_.dtAdmin.signMessage(
+        signature.getRevenueClaimMessage(
+          network.config.chainId!,
+          distributionManager,
+          users_.datasetOwner.address,
+          BigInt(validSince),
+          BigInt(validTill),
+          0n
+        )
+      );
+
+      const { payouts: ownerPayouts } = await client_.connect(users_.datasetOwner).claimPayouts({
+        datasetId,
+        sigValidSince: validSince,
+        sigValidTill: validTill,
+        signature: ownerSignature,
+        claimType: ClaimType.DATASET_OWNER,
+      });
+
+      expect(ownerPayouts).to.deep.equal([
+        {
+          to: users_.datasetOwner.address,
+          token: await users_.datasetOwner.Token!.getAddress(),
+          amount: parseUnits('0.01', 18),
+        },
+      ]);
+    });
+
+    it('Should list the payments distributed to contributors', async function () {
+      const { datasetId } = await mintDataset();
+
+      expect(await client_.getPayments(datasetId)).to.deep.equal([]);
+
+      await client_.connect(users_.subscriber).subscribe({
+        datasetId,
+        durationInDays: 1,
+        consumers: 1,
+      });
+
+      const [payment] = await client_.getPayments(datasetId);
+
+      expect(payment.token).to.equal(await users_.subscriber.Token!.getAddress());
+      expect(payment.distributionAmount).to.equal(parseUnits('0.09', 18));
+      expect(payment.tagWeightsVersion).to.equal(0n);
+      expect(await client_.getPayments(datasetId)).to.have.lengthOf(1);
+    });
+
+    it('Should decode custom errors of nested calls', async function () {
+      const { datasetId } = await mintDataset();
+
+      const badSignature = await users_.user.signMessage('not a proposal');
+
+      const error = await client_
+        .connect(users_.contributor)
+        .proposeFragment({
+          datasetId,
+          to: users_.contributor.address,
+          tag: 'tag',
+          signature: badSignature,
+        })
+        .catch((e) => e);
+
+      expect(error).to.be.instanceOf(NuklaiError);
+      expect(error.errorName).to.equal('BAD_SIGNATURE');
+      expect(error.contracts).to.include('FragmentNFT');
+      expect(error.message).to.match(
+        /^BAD_SIGNATURE\(msgHash: 0x[0-9a-f]{64}, recoveredSigner: 0x/
+      );
+    });
+
+    it('Should decode revert data of every Nuklai contract', async function () {
+      const decoded = decodeNuklaiError(
+        ERC20SubscriptionManager__factory.createInterface().encodeErrorResult(
+          'SUBSCRIPTION_DURATION_INVALID',
+          [1, 366, 0]
+        )
+      );
+
+      expect(decoded?.name).to.equal('SUBSCRIPTION_DURATION_INVALID');
+      expect(decoded?.contracts).to.include('GenericSingleDatasetSubscriptionManager');
+      expect(decoded?.args.toArray()).to.deep.equal([1n, 366n, 0n]);
+      expect(decoded?.message).to.equal(
+        'SUBSCRIPTION_DURATION_INVALID(minimum: 1, maximum: 366, current: 0)'
+      );
+
+      expect(decodeNuklaiError('0x12345678')).to.be.undefined;
+      expect(decodeNuklaiError(new Error('no revert data'))).to.be.undefined;
+    });
+
+    it('Should not decode truncated revert data', async function () {
+      const data = ERC20SubscriptionManager__factory.createInterface().encodeErrorResult(
+        'SUBSCRIPTION_DURATION_INVALID',
+        [1, 366, 0]
+      );
+      const truncated = data.slice(0, -64);
+
+      expect(decodeRevertData(truncated)).to.be.null;
+      expect(decodeNuklaiError(truncated)).to.be.undefined;
+      expect(decodeNuklaiError({ data: truncated })).to.be.undefined;
+    });
+
+    it('Should throw if the data set is not configured', async function () {
+      await expect(client_.getDatasetContracts(1n)).to.be.rejectedWith(
+        'Dataset 1 is not configured'
+      );
+    });
+  });
+}
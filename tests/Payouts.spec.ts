@@ -0,0 +1,270 @@
+import { expect } from 'chai';
+import { deployments, ethers, network } from 'hardhat';
+import { AcceptManuallyVerifier, DatasetNFT } from '@typechained';
+import { ZeroAddress, parseUnits } from 'ethers';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  FragmentSnapshot,
+  NuklaiClient,
+  PayoutState,
+  accountTagPercentages,
+  calculateContributorPayouts,
+  calculateOwnerPayouts,
+  calculatePayoutByToken,
+  splitPayment,
+} from '../sdk';
+import { APPROVED_TOKEN_ROLE } from '../utils/constants';
+import { signature } from './utils';
+import { encodeTag, getUuidHash } from './utils/utils';
+import { setupUsers, Signer } from './utils/users';
+
+const setup = async () => {
+  await deployments.fixture([
+    'ProxyAdmin',
+    'FragmentNFT',
+    'DatasetNFT',
+    'DatasetManagers',
+    'DatasetVerifiers',
+    'DatasetFactory',
+    'TestToken',
+  ]);
+
+  const users = await setupUsers();
+
+  const DatasetNFT = (await ethers.getContract('DatasetNFT')) as DatasetNFT;
+  const AcceptManuallyVerifier = (await ethers.getContract(
+    'AcceptManuallyVerifier'
+  )) as AcceptManuallyVerifier;
+
+  await DatasetNFT.grantRole(APPROVED_TOKEN_ROLE, await users.datasetOwner.Token!.getAddress());
+
+  return {
+    users,
+    DatasetNFT,
+    AcceptManuallyVerifier,
+  };
+};
+
+const TOKEN = '0x0000000000000000000000000000000000000001';
+const OTHER_TOKEN = '0x0000000000000000000000000000000000000002';
+const ACCOUNT = '0x0000000000000000000000000000000000000003';
+
+const snapshot: FragmentSnapshot = {
+  totalTagCount: { a: 3n, b: 1n },
+  accountTagCount: { [ACCOUNT]: { a: 1n, b: 1n } },
+};
+
+const state: PayoutState = {
+  payments: [
+    { token: TOKEN, distributionAmount: 100n, snapshotId: 1n, tagWeightsVersion: 0n },
+    { token: OTHER_TOKEN, distributionAmount: 1000n, snapshotId: 1n, tagWeightsVersion: 1n },
+    { token: TOKEN, distributionAmount: 10n, snapshotId: 2n, tagWeightsVersion: 1n },
+  ],
+  tagWeights: [{ a: parseUnits('0.5', 18), b: parseUnits('0.5', 18) }, { a: parseUnits('1', 18) }],
+  snapshots: {
+    1: snapshot,
+    2: { totalTagCount: { a: 1n }, accountTagCount: { [ACCOUNT]: { a: 1n } } },
+  },
+  pendingOwnerFee: { [TOKEN]: 7n, [OTHER_TOKEN]: 0n },
+};
+
+export default async function suite(): Promise<void> {
+  describe('Payouts', () => {
+    describe('Offline', () => {
+      it('Should calculate account tag percentages rounding down', async function () {
+        expect(accountTagPercentages(snapshot, ACCOUNT, ['a', 'b', 'c'])).to.deep.equal([
+          333333333333333333n,
+          parseUnits('1', 18),
+          0n,
+        ]);
+        expect(accountTagPercentages(snapshot, ZeroAddress, ['a'])).to.deep.equal([0n]);
+      });
+
+      it('Should split payments into deployer, owner and contributors amounts', async function () {
+        expect(splitPayment(1001n, parseUnits('0.1', 18), parseUnits('0.5', 18))).to.deep.equal({
+          deployerFee: 100n,
+          ownerFee: 450n,
+          distributionAmount: 451n,
+        });
+      });
+
+      it('Should calculate contributor payouts per token with versioned tag weights', async function () {
+        // 100 * 0.5 * 1/3 = 16 (rounded down) + 100 * 0.5 * 1 = 50, then 10 * 1 * 1 = 10
+        // 1000 * 1 * 1/3 = 333 (rounded down)
+        expect(calculateContributorPayouts(state, ACCOUNT)).to.deep.equal({
+          [TOKEN]: 76n,
+          [OTHER_TOKEN]: 333n,
+        });
+        expect(calculatePayoutByToken(state, TOKEN, ACCOUNT.toUpperCase())).to.equal(76n);
+        expect(calculatePayoutByToken(state, ZeroAddress, ACCOUNT)).to.equal(0n);
+      });
+
+      it('Should skip payments already claimed', async function () {
+        const claimedState = {
+          ...state,
+          firstUnclaimed: 1n,
+          firstUnclaimedContribution: { [ACCOUNT]: 2n },
+        };
+
+        expect(calculateContributorPayouts(claimedState, ACCOUNT)).to.deep.equal({
+          [TOKEN]: 10n,
+        });
+        expect(calculateOwnerPayouts(claimedState)).to.deep.equal({ [TOKEN]: 7n });
+        expect(calculateOwnerPayouts({ ...state, firstUnclaimed: 3n })).to.deep.equal({});
+      });
+
+      it('Should throw if a snapshot or tag weights version is missing', async function () {
+        expect(() =>
+          calculateContributorPayouts({ ...state, snapshots: { 1: snapshot } }, ACCOUNT)
+        ).to.throw('Missing FragmentNFT snapshot 2');
+        expect(() =>
+          calculateContributorPayouts(
+            { ...state, tagWeights: state.tagWeights.slice(0, 1) },
+            ACCOUNT
+          )
+        ).to.throw('Missing tag weights version 1');
+      });
+    });
+
+    describe('DistributionManager', () => {
+      let snap: string;
+      let users_: Record<string, Signer>;
+      let DatasetNFT_: DatasetNFT;
+      let AcceptManuallyVerifier_: AcceptManuallyVerifier;
+      let client_: NuklaiClient;
+
+      const tags = ['schemas', 'rows'];
+      const weights = [parseUnits('0.3', 18), parseUnits('0.7', 18)];
+
+      before(async () => {
+        const { users, DatasetNFT, AcceptManuallyVerifier } = await setup();
+
+        users_ = users;
+        DatasetNFT_ = DatasetNFT;
+        AcceptManuallyVerifier_ = AcceptManuallyVerifier;
+        client_ = new NuklaiClient(await DatasetNFT.getAddress(), users.user);
+      });
+
+      beforeEach(async () => {
+        snap = await ethers.provider.send('evm_snapshot', []);
+      });
+
+      afterEach(async () => {
+        await ethers.provider.send('evm_revert', [snap]);
+      });
+
+      it('Should match calculatePayoutByToken() and pendingOwnerFee()', async function () {
+        const uuid = uuidv4();
+        const { datasetId } = await client_.connect(users_.datasetOwner).mintDataset({
+          uuid,
+          owner: users_.datasetOwner.address,
+          signature: await users_.dtAdmin.signMessage(
+            signature.getDatasetMintMessage(
+              network.config.chainId!,
+              await DatasetNFT_.getAddress(),
+              getUuidHash(uuid),
+              users_.datasetOwner.address
+            )
+          ),
+          defaultVerifier: await AcceptManuallyVerifier_.getAddress(),
+          feeToken: await users_.datasetOwner.Token!.getAddress(),
+          feePerConsumerPerDay: parseUnits('0.1', 18),
+          datasetOwnerPercentage: parseUnits('0.1', 18),
+          tags,
+          weights,
+        });
+
+        const { fragmentNFT, distributionManager } = await client_.getDatasetContracts(datasetId);
+        const contributors = [users_.contributor, users_.user, users_.contributor];
+        const contributorTags = ['schemas', 'schemas', 'rows'];
+        const subscribers = [users_.subscriber, users_.secondSubscriber, users_.consumer];
+
+        for (const [index, contributor] of contributors.entries()) {
+          const { fragmentId } = await client_.connect(contributor).proposeFragment({
+            datasetId,
+            to: contributor.address,
+            tag: contributorTags[index],
+            signature: await users_.dtAdmin.signMessage(
+              signature.getDatasetFragmentProposeMessage(
+                network.config.chainId!,
+                await DatasetNFT_.getAddress(),
+                datasetId,
+                (await fragmentNFT.lastFragmentPendingId()) + 1n,
+                contributor.address,
+                encodeTag(contributorTags[index])
+              )
+            ),
+          });
+
+          await client_.connect(users_.datasetOwner).resolveFragment({
+            datasetId,
+            fragmentId,
+            accept: true,
+          });
+
+          await client_
+            .connect(subscribers[index])
+            .subscribe({ datasetId, durationInDays: 3, consumers: 1 });
+        }
+
+        const payoutState: PayoutState = {
+          payments: [],
+          tagWeights: [Object.fromEntries(tags.map((tag, i) => [encodeTag(tag), weights[i]]))],
+          snapshots: {},
+          pendingOwnerFee: {},
+        };
+
+        for (let i = 0; i < contributors.length; i++) {
+          const payment = await distributionManager.payments(i);
+          const [tags_, counts] = await fragmentNFT.tagCountAt(payment.snapshotId);
+          const accountTagCount: FragmentSnapshot['accountTagCount'] = {};
+
+          for (const account of [users_.contributor.address, users_.user.address]) {
+            const [accountTags, accountCounts] = await fragmentNFT.accountTagCountAt(
+              payment.snapshotId,
+              account
+            );
+            accountTagCount[account] = Object.fromEntries(
+              accountTags.map((tag, j) => [tag, accountCounts[j]])
+            );
+          }
+
+          payoutState.payments.push({
+            token: payment.token,
+            distributionAmount: payment.distributionAmount,
+            snapshotId: payment.snapshotId,
+            tagWeightsVersion: payment.tagWeightsVersion,
+          });
+          payoutState.snapshots[payment.snapshotId.toString()] = {
+            totalTagCount: Object.fromEntries(tags_.map((tag, j) => [tag, counts[j]])),
+            accountTagCount,
+          };
+          payoutState.pendingOwnerFee![payment.token] = await distributionManager.pendingOwnerFee(
+            payment.token
+          );
+
+          expect(
+            splitPayment(
+              parseUnits('0.3', 18),
+              await DatasetNFT_.deployerFeePercentage(datasetId),
+              parseUnits('0.1', 18)
+            ).distributionAmount
+          ).to.equal(payment.distributionAmount);
+        }
+
+        const token = await users_.datasetOwner.Token!.getAddress();
+
+        for (const account of [users_.contributor.address, users_.user.address]) {
+          const payout = await distributionManager.calculatePayoutByToken(token, account);
+
+          expect(payout).to.be.greaterThan(0n);
+          expect(calculatePayoutByToken(payoutState, token, account)).to.equal(payout);
+        }
+
+        expect(calculateOwnerPayouts(payoutState)).to.deep.equal({
+          [token.toLowerCase()]: await distributionManager.pendingOwnerFee(token),
+        });
+      });
+    });
+  });
+}
@@ -0,0 +1,161 @@
+import { DatasetNFT } from '@typechained';
+import { expect } from 'chai';
+import { ZeroAddress, parseUnits } from 'ethers';
+import hre, { deployments, ethers } from 'hardhat';
+import {
+  ProtocolConfig,
+  ReconcileTransaction,
+  getDeploymentBlock,
+  planReconcile,
+} from '../tasks/protocol_config';
+import {
+  APPROVED_TOKEN_ROLE,
+  DeployerFeeModel,
+  SIGNER_ROLE,
+  WHITELISTED_MANAGER_ROLE,
+} from '../utils/constants';
+import { setupUsers, Signer } from './utils/users';
+
+async function setup() {
+  await deployments.fixture([
+    'TestToken',
+    'ProxyAdmin',
+    'FragmentNFT',
+    'DatasetNFT',
+    'DatasetManagers',
+    'DatasetVerifiers',
+    'DatasetFactory',
+  ]);
+
+  const users = await setupUsers();
+
+  return {
+    users,
+    DatasetNFT: (await ethers.getContract('DatasetNFT')) as DatasetNFT,
+  };
+}
+
+export default async function suite(): Promise<void> {
+  describe('ProtocolConfig', () => {
+    let snap: string;
+    let users_: Record<string, Signer>;
+    let DatasetNFT_: DatasetNFT;
+    // Settings of the DatasetNFT as deployed by the fixture
+    let fixtureConfig_: ProtocolConfig;
+
+    before(async () => {
+      const { users, DatasetNFT } = await setup();
+
+      users_ = users;
+      DatasetNFT_ = DatasetNFT;
+      fixtureConfig_ = {
+        approvedTokens: [],
+        whitelistedManagers: ['ERC20SubscriptionManager', 'DistributionManager', 'VerifierManager'],
+        signers: [users.dtAdmin.address],
+        deployerFeeModelPercentages: { DATASET_OWNER_STORAGE: '0', DEPLOYER_STORAGE: '0' },
+        extraFeePerPendingFragment: '0',
+        baseURI: '',
+        fragmentImplementation: 'FragmentNFT',
+      };
+    });
+
+    beforeEach(async () => {
+      snap = await ethers.provider.send('evm_snapshot', []);
+    });
+
+    afterEach(async () => {
+      await ethers.provider.send('evm_revert', [snap]);
+    });
+
+    it('Should plan no transactions if the configuration matches the on-chain state', async () => {
+      expect(await planReconcile(hre, DatasetNFT_, fixtureConfig_)).to.be.empty;
+    });
+
+    it('Should plan the transactions converging to the configuration and none once sent', async () => {
+      const to = await DatasetNFT_.getAddress();
+      const token = (await deployments.get('TestToken')).address;
+      const verifierManager = (await deployments.get('VerifierManager')).address;
+      const { dtAdmin, user, consumer } = users_;
+
+      const config: ProtocolConfig = {
+        ...fixtureConfig_,
+        approvedTokens: ['TestToken'],
+        whitelistedManagers: ['ERC20SubscriptionManager', 'DistributionManager'],
+        signers: [user.address],
+        deployerFeeBeneficiary: dtAdmin.address,
+        deployerFeeModelPercentages: { DATASET_OWNER_STORAGE: '0', DEPLOYER_STORAGE: '0.35' },
+        extraFeePerPendingFragment: '0.05',
+        baseURI: 'https://api.nukl.ai/datasets/',
+        trustedForwarder: consumer.address,
+      };
+
+      const encode = DatasetNFT_.interface.encodeFunctionData.bind(DatasetNFT_.interface);
+      const expected: ReconcileTransaction[] = [
+        {
+          description: `approvedTokens: grant ${token}`,
+          to,
+          data: encode('grantRole', [APPROVED_TOKEN_ROLE, token]),
+        },
+        {
+          description: `whitelistedManagers: revoke ${verifierManager}`,
+          to,
+          data: encode('revokeRole', [WHITELISTED_MANAGER_ROLE, verifierManager]),
+        },
+        {
+          description: `signers: grant ${user.address}`,
+          to,
+          data: encode('grantRole', [SIGNER_ROLE, user.address]),
+        },
+        {
+          description: `signers: revoke ${dtAdmin.address}`,
+          to,
+          data: encode('revokeRole', [SIGNER_ROLE, dtAdmin.address]),
+        },
+        {
+          description: `deployerFeeBeneficiary: ${dtAdmin.address}`,
+          to,
+          data: encode('setDeployerFeeBeneficiary', [dtAdmin.address]),
+        },
+        {
+          description: 'deployerFeeModelPercentages: DEPLOYER_STORAGE 350000000000000000',
+          to,
+          data: encode('setDeployerFeeModelPercentages', [
+            [DeployerFeeModel.DEPLOYER_STORAGE],
+            [parseUnits('0.35', 18)],
+          ]),
+        },
+        {
+          description: 'extraFeePerPendingFragment: 50000000000000000',
+          to,
+          data: encode('setExtraFeePerPendingFragment', [parseUnits('0.05', 18)]),
+        },
+        {
+          description: 'baseURI: https://api.nukl.ai/datasets/',
+          to,
+          data: encode('setBaseURI', ['https://api.nukl.ai/datasets/']),
+        },
+        {
+          description: `trustedForwarder: ${consumer.address}`,
+          to,
+          data: encode('setTrustedForwarder', [consumer.address]),
+        },
+      ];
+
+      expect(await planReconcile(hre, DatasetNFT_, config)).to.deep.equal(expected);
+
+      for (const transaction of expected) await (await dtAdmin.sendTransaction(transaction)).wait();
+
+      expect(await planReconcile(hre, DatasetNFT_, config)).to.be.empty;
+    });
+
+    it('Should look up role members from the DatasetNFT deployment block by default', async () => {
+      const { receipt } = await deployments.get('DatasetNFT');
+
+      expect(await getDeploymentBlock(hre, {})).to.equal(receipt!.blockNumber);
+      expect(await getDeploymentBlock(hre, { deploymentBlock: 42 })).to.equal(42);
+      await expect(getDeploymentBlock(hre, { datasetNFT: ZeroAddress })).to.be.rejectedWith(
+        'No DatasetNFT deployment to look up role members from, set deploymentBlock'
+      );
+    });
+  });
+}
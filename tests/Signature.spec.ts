@@ -0,0 +1,414 @@
+import { DatasetFactory, DatasetNFT, DistributionManager, FragmentNFT } from '@typechained';
+import { expect } from 'chai';
+import { parseUnits } from 'ethers';
+import { deployments, ethers, network } from 'hardhat';
+import { anyValue } from '@nomicfoundation/hardhat-chai-matchers/withArgs';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { v4 as uuidv4 } from 'uuid';
+import * as signature from '../utils/signature';
+import { APPROVED_TOKEN_ROLE } from '../utils/constants';
+import { constants } from './utils';
+import { getEvent } from './utils/events';
+import { setupUsers, Signer } from './utils/users';
+import { encodeTag, getUuidHash } from './utils/utils';
+
+const setup = async () => {
+  await deployments.fixture([
+    'ProxyAdmin',
+    'FragmentNFT',
+    'DatasetNFT',
+    'DatasetManagers',
+    'DatasetVerifiers',
+    'DatasetFactory',
+    'TestToken',
+  ]);
+
+  const users = await setupUsers();
+
+  const DatasetFactory = (await ethers.getContract('DatasetFactory')) as DatasetFactory;
+  const DatasetNFT = (await ethers.getContract('DatasetNFT')) as DatasetNFT;
+  const AcceptManuallyVerifier = await ethers.getContract('AcceptManuallyVerifier');
+
+  await DatasetNFT.grantRole(APPROVED_TOKEN_ROLE, await users.datasetOwner.Token!.getAddress());
+
+  const uuidHash = getUuidHash(uuidv4());
+
+  const mintSignature = await signature.signMessage(
+    users.dtAdmin,
+    signature.getDatasetMintMessage(
+      network.config.chainId!,
+      await DatasetNFT.getAddress(),
+      uuidHash,
+      users.datasetOwner.address
+    )
+  );
+
+  const receipt = await (
+    await DatasetFactory.connect(users.datasetOwner).mintAndConfigureDataset(
+      uuidHash,
+      users.datasetOwner.address,
+      mintSignature,
+      await AcceptManuallyVerifier.getAddress(),
+      await users.datasetOwner.Token!.getAddress(),
+      parseUnits('0.1', 18),
+      parseUnits('0.001', 18),
+      [encodeTag('dataset.schemas')],
+      [parseUnits('1', 18)],
+      false
+    )
+  ).wait();
+
+  const [, , datasetId] = getEvent('Transfer', receipt?.logs!, DatasetNFT)!.args as unknown as [
+    string,
+    string,
+    bigint
+  ];
+
+  const FragmentNFT = (await ethers.getContractAt(
+    'FragmentNFT',
+    await DatasetNFT.fragments(datasetId)
+  )) as unknown as FragmentNFT;
+  const DistributionManager = (await ethers.getContractAt(
+    'DistributionManager',
+    await DatasetNFT.distributionManager(datasetId)
+  )) as unknown as DistributionManager;
+
+  return {
+    users,
+    datasetId,
+    DatasetFactory,
+    DatasetNFT,
+    FragmentNFT,
+    DistributionManager,
+    defaultVerifier: await AcceptManuallyVerifier.getAddress(),
+  };
+};
+
+export default async function suite(): Promise<void> {
+  describe('Signature', () => {
+    let snap: string;
+    let users_: Record<string, Signer>;
+    let datasetId_: bigint;
+    let DatasetFactory_: DatasetFactory;
+    let DatasetNFT_: DatasetNFT;
+    let FragmentNFT_: FragmentNFT;
+    let DistributionManager_: DistributionManager;
+    let defaultVerifier_: string;
+
+    before(async () => {
+      const {
+        users,
+        datasetId,
+        DatasetFactory,
+        DatasetNFT,
+        FragmentNFT,
+        DistributionManager,
+        defaultVerifier,
+      } = await setup();
+
+      users_ = users;
+      datasetId_ = datasetId;
+      DatasetFactory_ = DatasetFactory;
+      DatasetNFT_ = DatasetNFT;
+      FragmentNFT_ = FragmentNFT;
+      DistributionManager_ = DistributionManager;
+      defaultVerifier_ = defaultVerifier;
+    });
+
+    beforeEach(async () => {
+      snap = await ethers.provider.send('evm_snapshot', []);
+    });
+
+    afterEach(async () => {
+      await ethers.provider.send('evm_revert', [snap]);
+    });
+
+    it('Should recover the signer of a message', async function () {
+      const message = signature.getDatasetMintMessage(
+        network.config.chainId!,
+        await DatasetNFT_.getAddress(),
+        getUuidHash(uuidv4()),
+        users_.datasetOwner.address
+      );
+
+      const signed = await signature.signMessage(users_.user, message);
+
+      expect(signature.recoverSigner(message, signed)).to.equal(users_.user.address);
+    });
+
+    it('Should verify signatures against DatasetNFT signers', async function () {
+      const message = signature.getDatasetMintMessage(
+        network.config.chainId!,
+        await DatasetNFT_.getAddress(),
+        getUuidHash(uuidv4()),
+        users_.datasetOwner.address
+      );
+
+      const dtAdminSignature = await signature.signMessage(users_.dtAdmin, message);
+      const userSignature = await signature.signMessage(users_.user, message);
+
+      expect(await signature.verifySignature(DatasetNFT_, message, dtAdminSignature)).to.be.true;
+      expect(await signature.verifySignature(DatasetNFT_, message, userSignature)).to.be.false;
+    });
+
+    it('Should mint message hash match DatasetNFT _mintMessageHash', async function () {
+      const uuidHash = getUuidHash(uuidv4());
+
+      const message = signature.getDatasetMintMessage(
+        network.config.chainId!,
+        await DatasetNFT_.getAddress(),
+        uuidHash,
+        users_.datasetOwner.address
+      );
+
+      await expect(
+        DatasetFactory_.connect(users_.datasetOwner).mintAndConfigureDataset(
+          uuidHash,
+          users_.datasetOwner.address,
+          await signature.signMessage(users_.user, message),
+          defaultVerifier_,
+          await users_.datasetOwner.Token!.getAddress(),
+          parseUnits('0.1', 18),
+          parseUnits('0.001', 18),
+          [encodeTag('dataset.schemas')],
+          [parseUnits('1', 18)],
+          false
+        )
+      )
+        .to.be.revertedWithCustomError(DatasetNFT_, 'BAD_SIGNATURE')
+        .withArgs(signature.getMessageHash(message), users_.user.address);
+    });
+
+    it('Should propose message hash match FragmentNFT _proposeMessageHash', async function () {
+      const tag = encodeTag('dataset.schemas');
+
+      const message = signature.getDatasetFragmentProposeMessage(
+        network.config.chainId!,
+        await DatasetNFT_.getAddress(),
+        datasetId_,
+        (await FragmentNFT_.lastFragmentPendingId()) + 1n,
+        users_.contributor.address,
+        tag
+      );
+
+      await expect(
+        DatasetNFT_.connect(users_.contributor).proposeFragment(
+          datasetId_,
+          users_.contributor.address,
+          tag,
+          await signature.signMessage(users_.user, message)
+        )
+      )
+        .to.be.revertedWithCustomError(FragmentNFT_, 'BAD_SIGNATURE')
+        .withArgs(signature.getMessageHash(message), users_.user.address);
+    });
+
+    it('Should propose batch message hash match FragmentNFT _proposeManyMessageHash', async function () {
+      const tags = [encodeTag('dataset.schemas'), encodeTag('dataset.rows')];
+      const owners = [users_.contributor.address, users_.secondConsumer.address];
+      const lastFragmentPendingId = await FragmentNFT_.lastFragmentPendingId();
+
+      const message = signature.getDatasetFragmentProposeBatchMessage(
+        network.config.chainId!,
+        await DatasetNFT_.getAddress(),
+        datasetId_,
+        lastFragmentPendingId + 1n,
+        lastFragmentPendingId + BigInt(tags.length),
+        owners,
+        tags
+      );
+
+      await expect(
+        DatasetNFT_.connect(users_.contributor).proposeManyFragments(
+          datasetId_,
+          owners,
+          tags,
+          await signature.signMessage(users_.user, message)
+        )
+      )
+        .to.be.revertedWithCustomError(FragmentNFT_, 'BAD_SIGNATURE')
+        .withArgs(signature.getMessageHash(message), users_.user.address);
+    });
+
+    it('Should revenue claim message hash match DistributionManager _claimRevenueMessageHash', async function () {
+      const validSince = BigInt(await time.latest());
+      const validTill = validSince + BigInt(constants.ONE_DAY);
+
+      const message = signature.getRevenueClaimMessage(
+        network.config.chainId!,
+        await DistributionManager_.getAddress(),
+        users_.contributor.address,
+        validSince,
+        validTill,
+        await DistributionManager_.claimNonces(users_.contributor.address)
+      );
+
+      await expect(
+        DistributionManager_.connect(users_.contributor).claimPayouts(
+          validSince,
+          validTill,
+          await DistributionManager_.claimNonces(users_.contributor.address),
+          await signature.signMessage(users_.user, message)
+        )
+      )
+        .to.be.revertedWithCustomError(DistributionManager_, 'BAD_SIGNATURE')
+        .withArgs(signature.getMessageHash(message), users_.user.address);
+    });
+
+    describe('EIP-712', () => {
+      beforeEach(async () => {
+        await DatasetNFT_.connect(users_.dtAdmin).setEIP712SignaturesEnabled(true);
+      });
+
+      it('Should recover the signer of typed data', async function () {
+        const typedData = signature.getDatasetMintTypedData(
+          network.config.chainId!,
+          await DatasetNFT_.getAddress(),
+          getUuidHash(uuidv4()),
+          users_.datasetOwner.address
+        );
+
+        const signed = await signature.signMessage(users_.user, typedData);
+
+        expect(signature.recoverSigner(typedData, signed)).to.equal(users_.user.address);
+        expect(await signature.verifySignature(DatasetNFT_, typedData, signed)).to.be.false;
+      });
+
+      it('Should mint with a typed data signature', async function () {
+        const uuidHash = getUuidHash(uuidv4());
+        const datasetAddress = await DatasetNFT_.getAddress();
+
+        const typedData = signature.getDatasetMintTypedData(
+          network.config.chainId!,
+          datasetAddress,
+          uuidHash,
+          users_.datasetOwner.address
+        );
+        const legacyMessage = signature.getDatasetMintMessage(
+          network.config.chainId!,
+          datasetAddress,
+          uuidHash,
+          users_.datasetOwner.address
+        );
+
+        const mint = async (mintSignature: string) =>
+          DatasetFactory_.connect(users_.datasetOwner).mintAndConfigureDataset(
+            uuidHash,
+            users_.datasetOwner.address,
+            mintSignature,
+            defaultVerifier_,
+            await users_.datasetOwner.Token!.getAddress(),
+            parseUnits('0.1', 18),
+            parseUnits('0.001', 18),
+            [encodeTag('dataset.schemas')],
+            [parseUnits('1', 18)],
+            false
+          );
+
+        await expect(mint(await signature.signMessage(users_.dtAdmin, legacyMessage)))
+          .to.be.revertedWithCustomError(DatasetNFT_, 'BAD_SIGNATURE')
+          .withArgs(signature.getMessageHash(typedData), anyValue);
+
+        await expect(mint(await signature.signMessage(users_.user, typedData)))
+          .to.be.revertedWithCustomError(DatasetNFT_, 'BAD_SIGNATURE')
+          .withArgs(signature.getMessageHash(typedData), users_.user.address);
+
+        await mint(await signature.signMessage(users_.dtAdmin, typedData));
+
+        expect(await DatasetNFT_.ownerOf(uuidHash)).to.equal(users_.datasetOwner.address);
+      });
+
+      it('Should propose with a typed data signature', async function () {
+        const tag = encodeTag('dataset.schemas');
+
+        const typedData = signature.getDatasetFragmentProposeTypedData(
+          network.config.chainId!,
+          await FragmentNFT_.getAddress(),
+          datasetId_,
+          (await FragmentNFT_.lastFragmentPendingId()) + 1n,
+          users_.contributor.address,
+          tag
+        );
+
+        const propose = async (proposeSignature: string) =>
+          DatasetNFT_.connect(users_.contributor).proposeFragment(
+            datasetId_,
+            users_.contributor.address,
+            tag,
+            proposeSignature
+          );
+
+        await expect(propose(await signature.signMessage(users_.user, typedData)))
+          .to.be.revertedWithCustomError(FragmentNFT_, 'BAD_SIGNATURE')
+          .withArgs(signature.getMessageHash(typedData), users_.user.address);
+
+        await expect(propose(await signature.signMessage(users_.dtAdmin, typedData)))
+          .to.emit(FragmentNFT_, 'FragmentPending')
+          .withArgs(typedData.value.id, tag);
+      });
+
+      it('Should propose batch with a typed data signature', async function () {
+        const tags = [encodeTag('dataset.schemas'), encodeTag('dataset.rows')];
+        const owners = [users_.contributor.address, users_.secondConsumer.address];
+        const lastFragmentPendingId = await FragmentNFT_.lastFragmentPendingId();
+
+        const typedData = signature.getDatasetFragmentProposeBatchTypedData(
+          network.config.chainId!,
+          await FragmentNFT_.getAddress(),
+          datasetId_,
+          lastFragmentPendingId + 1n,
+          lastFragmentPendingId + BigInt(tags.length),
+          owners,
+          tags
+        );
+
+        const proposeMany = async (proposeSignature: string) =>
+          DatasetNFT_.connect(users_.contributor).proposeManyFragments(
+            datasetId_,
+            owners,
+            tags,
+            proposeSignature
+          );
+
+        await expect(proposeMany(await signature.signMessage(users_.user, typedData)))
+          .to.be.revertedWithCustomError(FragmentNFT_, 'BAD_SIGNATURE')
+          .withArgs(signature.getMessageHash(typedData), users_.user.address);
+
+        await proposeMany(await signature.signMessage(users_.dtAdmin, typedData));
+
+        expect(await FragmentNFT_.lastFragmentPendingId()).to.equal(
+          lastFragmentPendingId + BigInt(tags.length)
+        );
+      });
+
+      it('Should claim revenue with a typed data signature', async function () {
+        const validSince = BigInt(await time.latest());
+        const validTill = validSince + BigInt(constants.ONE_DAY);
+
+        const typedData = signature.getRevenueClaimTypedData(
+          network.config.chainId!,
+          await DistributionManager_.getAddress(),
+          users_.contributor.address,
+          validSince,
+          validTill,
+          await DistributionManager_.claimNonces(users_.contributor.address)
+        );
+
+        const claim = async (claimSignature: string) =>
+          DistributionManager_.connect(users_.contributor).claimPayouts(
+            validSince,
+            validTill,
+            await DistributionManager_.claimNonces(users_.contributor.address),
+            claimSignature
+          );
+
+        await expect(claim(await signature.signMessage(users_.user, typedData)))
+          .to.be.revertedWithCustomError(DistributionManager_, 'BAD_SIGNATURE')
+          .withArgs(signature.getMessageHash(typedData), users_.user.address);
+
+        await expect(claim(await signature.signMessage(users_.dtAdmin, typedData))).to.not.be
+          .reverted;
+      });
+    });
+  });
+}
@@ -0,0 +1,297 @@
+import { DatasetNFT } from '@typechained';
+import { expect } from 'chai';
+import { parseUnits } from 'ethers';
+import { deployments, ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { request } from 'http';
+import { AddressInfo } from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import { NuklaiClient } from '../sdk';
+import {
+  PolicyViolationError,
+  RateLimitError,
+  RateLimiter,
+  SignatureLogEntry,
+  SigningPolicy,
+  SigningService,
+  createSigningServer,
+} from '../signer';
+import { APPROVED_TOKEN_ROLE } from '../utils/constants';
+import { constants } from './utils';
+import { setupUsers, Signer } from './utils/users';
+
+const setup = async () => {
+  await deployments.fixture([
+    'ProxyAdmin',
+    'FragmentNFT',
+    'DatasetNFT',
+    'DatasetManagers',
+    'DatasetVerifiers',
+    'DatasetFactory',
+    'TestToken',
+  ]);
+
+  const users = await setupUsers();
+
+  const DatasetNFT = (await ethers.getContract('DatasetNFT')) as DatasetNFT;
+  const AcceptManuallyVerifier = await ethers.getContract('AcceptManuallyVerifier');
+
+  await DatasetNFT.grantRole(APPROVED_TOKEN_ROLE, await users.datasetOwner.Token!.getAddress());
+
+  return {
+    users,
+    DatasetNFT,
+    defaultVerifier: await AcceptManuallyVerifier.getAddress(),
+  };
+};
+
+const post = (port: number, path: string, body: object) =>
+  new Promise<{ status: number; body: Record<string, string> }>((resolve, reject) => {
+    const req = request({ port, path, method: 'POST' }, (res) => {
+      let data = '';
+      res.on('data', (chunk) => (data += chunk));
+      res.on('end', () => resolve({ status: res.statusCode!, body: JSON.parse(data) }));
+    });
+    req.on('error', reject);
+    req.end(JSON.stringify(body));
+  });
+
+export default async function suite(): Promise<void> {
+  describe('SigningService', () => {
+    let snap: string;
+    let users_: Record<string, Signer>;
+    let DatasetNFT_: DatasetNFT;
+    let defaultVerifier_: string;
+    let logs_: SignatureLogEntry[];
+
+    const createService = (policy: SigningPolicy = {}) =>
+      new SigningService(DatasetNFT_.target as string, users_.dtAdmin, policy, (entry) =>
+        logs_.push(entry)
+      );
+
+    const mintDataset = async (service: SigningService) => {
+      const uuid = uuidv4();
+      const { signature } = await service.signMint({ uuid, owner: users_.datasetOwner.address });
+
+      return new NuklaiClient(DatasetNFT_.target as string, users_.datasetOwner).mintDataset({
+        uuid,
+        owner: users_.datasetOwner.address,
+        signature,
+        defaultVerifier: defaultVerifier_,
+        feeToken: await users_.datasetOwner.Token!.getAddress(),
+        feePerConsumerPerDay: parseUnits('0.1', 18),
+        datasetOwnerPercentage: parseUnits('0.1', 18),
+        tags: ['tag'],
+        weights: [parseUnits('1', 18)],
+      });
+    };
+
+    before(async () => {
+      const { users, DatasetNFT, defaultVerifier } = await setup();
+
+      users_ = users;
+      DatasetNFT_ = DatasetNFT;
+      defaultVerifier_ = defaultVerifier;
+    });
+
+    beforeEach(async () => {
+      snap = await ethers.provider.send('evm_snapshot', []);
+      logs_ = [];
+    });
+
+    afterEach(async () => {
+      await ethers.provider.send('evm_revert', [snap]);
+    });
+
+    it('Should issue mint signatures accepted by DatasetNFT and log them', async function () {
+      const { datasetId } = await mintDataset(createService());
+
+      expect(await DatasetNFT_.ownerOf(datasetId)).to.equal(users_.datasetOwner.address);
+      expect(logs_.length).to.equal(1);
+      expect(logs_[0].kind).to.equal('mint');
+      expect(logs_[0].signer).to.equal(users_.dtAdmin.address);
+    });
+
+    it('Should reject mint signatures of owners not allowed by the policy', async function () {
+      const service = createService({ allowedOwners: [users_.datasetOwner.address] });
+
+      await expect(
+        service.signMint({ uuid: uuidv4(), owner: users_.user.address })
+      ).to.be.rejectedWith(PolicyViolationError, `Owner ${users_.user.address} is not allowed`);
+      expect(logs_.length).to.equal(0);
+    });
+
+    it('Should issue propose signatures accepted by FragmentNFT', async function () {
+      const service = createService();
+      const { datasetId } = await mintDataset(service);
+
+      const single = await service.signPropose({
+        datasetId: datasetId.toString(),
+        to: users_.contributor.address,
+        tag: 'tag',
+      });
+
+      await DatasetNFT_.connect(users_.contributor).proposeFragment(
+        datasetId,
+        users_.contributor.address,
+        single.encodedTag,
+        single.signature
+      );
+
+      const batch = await service.signProposeMany({
+        datasetId: datasetId.toString(),
+        owners: [users_.contributor.address, users_.user.address],
+        tags: ['tag', 'tag'],
+      });
+
+      expect(batch.fromId).to.equal('2');
+      expect(batch.toId).to.equal('3');
+
+      await DatasetNFT_.connect(users_.contributor).proposeManyFragments(
+        datasetId,
+        [users_.contributor.address, users_.user.address],
+        batch.encodedTags,
+        batch.signature
+      );
+
+      expect(logs_.map((entry) => entry.kind)).to.deep.equal(['mint', 'propose', 'proposeMany']);
+    });
+
+    it('Should reject propose signatures of tags not allowed for the data set', async function () {
+      const { datasetId } = await mintDataset(createService());
+      const service = createService({ datasetTags: { [datasetId.toString()]: ['tag'] } });
+
+      await expect(
+        service.signPropose({
+          datasetId: datasetId.toString(),
+          to: users_.contributor.address,
+          tag: 'other',
+        })
+      ).to.be.rejectedWith(PolicyViolationError, 'Tag other is not allowed');
+
+      await expect(
+        service.signProposeMany({
+          datasetId: datasetId.toString(),
+          owners: [users_.contributor.address, users_.contributor.address],
+          tags: ['tag', 'other'],
+        })
+      ).to.be.rejectedWith(PolicyViolationError, 'Tag other is not allowed');
+    });
+
+    it('Should issue claim signatures within the max validity window', async function () {
+      const service = createService({ maxClaimValiditySeconds: constants.ONE_DAY });
+      const { datasetId, distributionManager } = await mintDataset(service);
+
+      const validSince = await time.latest();
+
+      await expect(
+        service.signClaim({
+          datasetId: datasetId.toString(),
+          beneficiary: users_.datasetOwner.address,
+          validSince,
+          validTill: validSince + constants.ONE_WEEK,
+        })
+      ).to.be.rejectedWith(PolicyViolationError, 'Claim validity window exceeds');
+
+      const claim = await service.signClaim({
+        datasetId: datasetId.toString(),
+        beneficiary: users_.datasetOwner.address,
+        validSince,
+        validTill: validSince + constants.ONE_DAY,
+      });
+
+      expect(claim.distributionManager).to.equal(distributionManager);
+
+      const DistributionManager = await ethers.getContractAt(
+        'DistributionManager',
+        distributionManager,
+        users_.datasetOwner
+      );
+
+      await expect(
+        DistributionManager.claimPayouts(
+          validSince,
+          validSince + constants.ONE_DAY,
+          claim.nonce,
+          claim.signature
+        )
+      ).to.not.be.reverted;
+    });
+
+    it('Should issue EIP-712 signatures if enabled in DatasetNFT', async function () {
+      await DatasetNFT_.connect(users_.dtAdmin).setEIP712SignaturesEnabled(true);
+
+      const service = createService();
+      const { datasetId } = await mintDataset(service);
+
+      const { signature, encodedTag } = await service.signPropose({
+        datasetId: datasetId.toString(),
+        to: users_.contributor.address,
+        tag: 'tag',
+      });
+
+      await DatasetNFT_.connect(users_.contributor).proposeFragment(
+        datasetId,
+        users_.contributor.address,
+        encodedTag,
+        signature
+      );
+    });
+
+    it('Should rate limit requesters', async function () {
+      const service = createService({ rateLimit: { maxRequests: 1, windowSeconds: 60 } });
+
+      await service.signMint({ uuid: uuidv4(), owner: users_.datasetOwner.address }, 'client');
+
+      await expect(
+        service.signMint({ uuid: uuidv4(), owner: users_.datasetOwner.address }, 'client')
+      ).to.be.rejectedWith(RateLimitError, 'Rate limit exceeded for client');
+
+      await service.signMint({ uuid: uuidv4(), owner: users_.datasetOwner.address }, 'other');
+    });
+
+    it('Should forget requesters whose rate limit window expired', async function () {
+      let now = 0;
+      const rateLimiter = new RateLimiter({ maxRequests: 1, windowSeconds: 60 }, () => now);
+
+      expect(rateLimiter.consume('client')).to.be.true;
+      expect(rateLimiter.consume('other')).to.be.true;
+      expect(rateLimiter.consume('client')).to.be.false;
+      expect(rateLimiter.size).to.equal(2);
+
+      now = 60_000;
+
+      expect(rateLimiter.consume('client')).to.be.true;
+      expect(rateLimiter.size).to.equal(1);
+    });
+
+    it('Should serve signatures over HTTP', async function () {
+      const server = createSigningServer(
+        createService({ allowedOwners: [users_.datasetOwner.address] })
+      );
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      const { port } = server.address() as AddressInfo;
+
+      try {
+        const mint = await post(port, '/mint', {
+          uuid: uuidv4(),
+          owner: users_.datasetOwner.address,
+        });
+        expect(mint.status).to.equal(200);
+        expect(mint.body.signature).to.be.a('string');
+
+        const forbidden = await post(port, '/mint', { uuid: uuidv4(), owner: users_.user.address });
+        expect(forbidden.status).to.equal(403);
+
+        const invalid = await post(port, '/claim', { datasetId: '1', beneficiary: 'nope' });
+        expect(invalid.status).to.equal(400);
+        expect(invalid.body.error).to.equal('beneficiary must be an address');
+
+        const unknown = await post(port, '/unknown', {});
+        expect(unknown.status).to.equal(404);
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+  });
+}
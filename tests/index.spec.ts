@@ -1,13 +1,29 @@
 import datasetFactory from './DatasetFactory.spec';
 import datasetNFT from './DatasetNFT.spec';
+import deploymentManifest from './DeploymentManifest.spec';
+import deterministicDeployment from './DeterministicDeployment.spec';
 import distributionManager from './DistributionManager.spec';
 import fragmentNFT from './FragmentNFT.spec';
+import indexer from './Indexer.spec';
+import nuklaiClient from './NuklaiClient.spec';
+import payouts from './Payouts.spec';
+import protocolConfig from './ProtocolConfig.spec';
+import signature from './Signature.spec';
+import signingService from './SigningService.spec';
 import subscriptionManager from './SubscriptionManager.spec';
 import testERC20Token from './TestToken.spec';
 
 datasetFactory();
 datasetNFT();
+deploymentManifest();
+deterministicDeployment();
 distributionManager();
 fragmentNFT();
+indexer();
+nuklaiClient();
+payouts();
+protocolConfig();
+signature();
+signingService();
 subscriptionManager();
 testERC20Token();
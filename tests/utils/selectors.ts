@@ -1,4 +1,4 @@
-export const IDatasetNFT_Interface_Id = '0xf97de1a3';
+export const IDatasetNFT_Interface_Id = '0xd01907f1';
 export const IERC721_Interface_Id = '0x80ac58cd';
 export const IERC165_Interface_Id = '0x01ffc9a7';
 export const IAccessControl_Interface_Id = '0x7965db0b';
@@ -6,4 +6,4 @@ export const IERC721Metadata_Interface_Id = '0x5b5e139f';
 export const IFragmentNFT_Interface_Id = '0x140da557';
 export const IVerifierManager_Interface_Id = '0x22a05cd9';
 export const ISubscriptionManager_Interface_Id = '0x1e44eae7';
-export const IDistributionManager_Interface_Id = '0x61779df3';
+export const IDistributionManager_Interface_Id = '0xdf2952f4';
@@ -0,0 +1,108 @@
+import { ZeroAddress } from 'ethers';
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+import type { DeployOptions } from 'hardhat-deploy/types';
+import { getDeploymentSalt } from './network';
+
+/** hardhat-deploy names of the protocol contracts deployable at deterministic addresses, in deployment order */
+export const DETERMINISTIC_CONTRACTS = [
+  'ProxyAdmin',
+  'FragmentNFT',
+  'DatasetNFT',
+  'ERC20SubscriptionManager',
+  'VerifierManager',
+  'DistributionManager',
+  'AcceptManuallyVerifier',
+  'AcceptAllVerifier',
+  'DatasetFactory',
+] as const;
+
+export type DeterministicContractName = (typeof DETERMINISTIC_CONTRACTS)[number];
+
+/** Addresses of the contracts the DatasetNFT and AcceptManuallyVerifier are deployed with */
+export type DeploymentDependencies = Partial<Record<'ProxyAdmin' | 'DatasetNFT', string>>;
+
+export interface PredictedAddress {
+  address: string;
+  /** Implementation behind the DatasetNFT proxy */
+  implementation?: string;
+}
+
+/**
+ * Returns the hardhat-deploy options of the protocol contract `name` deployed by `deployer`,
+ * through the CREATE2 factory at a deterministic address when a `salt` is set
+ */
+export function getDeployOptions(
+  name: DeterministicContractName,
+  deployer: string,
+  dependencies: DeploymentDependencies = {},
+  salt = getDeploymentSalt()
+): DeployOptions {
+  const options: DeployOptions = { from: deployer, deterministicDeployment: salt ?? false };
+
+  const dependency = (dependencyName: keyof DeploymentDependencies) => {
+    const address = dependencies[dependencyName];
+    if (!address) throw new Error(`${name} is deployed with the ${dependencyName} address`);
+    return address;
+  };
+
+  switch (name) {
+    case 'ProxyAdmin':
+      // Deployed through the CREATE2 factory, the OpenZeppelin ProxyAdmin would be owned by the factory
+      return salt ? { ...options, contract: 'DeterministicProxyAdmin', args: [deployer] } : options;
+    case 'DatasetNFT':
+      return {
+        ...options,
+        contract: 'DatasetNFT',
+        log: true,
+        proxy: {
+          owner: dependency('ProxyAdmin'),
+          proxyContract: 'TransparentUpgradeableProxy',
+          execute: {
+            init: {
+              methodName: 'initialize',
+              args: [deployer, ZeroAddress],
+            },
+          },
+        },
+      };
+    case 'AcceptManuallyVerifier':
+      return { ...options, args: [dependency('DatasetNFT')] };
+    case 'DatasetFactory':
+      return { ...options, args: [deployer] };
+    default:
+      return options;
+  }
+}
+
+/**
+ * Predicts the addresses the deploy scripts deploy the protocol contracts at with `salt`,
+ * which depend on the salt, the deployer and the compiled bytecode only
+ */
+export async function predictDeterministicAddresses(
+  hre: HardhatRuntimeEnvironment,
+  deployer: string,
+  salt: string
+): Promise<Record<DeterministicContractName, PredictedAddress>> {
+  const predicted = {} as Record<DeterministicContractName, PredictedAddress>;
+  const dependencies: DeploymentDependencies = {};
+
+  for (const name of DETERMINISTIC_CONTRACTS) {
+    const options = getDeployOptions(name, deployer, dependencies, salt);
+
+    // With a DatasetNFT already recorded, hardhat-deploy would predict the address of a proxy
+    // deployed without the `init` call of its upgrades, instead of the one of a first deployment
+    const { proxy } = options;
+    if (typeof proxy === 'object' && 'execute' in proxy && proxy.execute && 'init' in proxy.execute)
+      options.proxy = { ...proxy, execute: proxy.execute.init };
+
+    const { address, implementationAddress } = await hre.deployments.deterministic(name, {
+      ...options,
+      salt,
+    });
+
+    predicted[name] = { address, implementation: implementationAddress };
+    if (name === 'ProxyAdmin' || name === 'DatasetNFT') dependencies[name] = address;
+  }
+
+  return predicted;
+}
@@ -0,0 +1,9 @@
+import { solidityPackedKeccak256 } from 'ethers';
+
+export const encodeTag = (tag: string): string => {
+  return solidityPackedKeccak256(['string'], [tag]);
+};
+
+export const getUuidHash = (uuid: string): string => {
+  return solidityPackedKeccak256(['string'], [uuid]);
+};
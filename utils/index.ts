@@ -1,4 +1,8 @@
 import * as constants from './constants';
+import * as deployment from './deployment';
+import * as encoding from './encoding';
+import * as manifest from './manifest';
 import * as network from './network';
+import * as signature from './signature';
 
-export { constants, network };
+export { constants, deployment, encoding, manifest, network, signature };
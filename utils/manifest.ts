@@ -0,0 +1,244 @@
+import type { DatasetFactory, DatasetNFT } from '../typechain-types';
+import { BytesLike, ZeroHash, dataSlice, getAddress, keccak256 } from 'ethers';
+import { execSync } from 'child_process';
+import type { HardhatRuntimeEnvironment, SolidityConfig } from 'hardhat/types';
+import { APPROVED_TOKEN_ROLE, SIGNER_ROLE, WHITELISTED_MANAGER_ROLE } from './constants';
+
+/** Format version of the deployment manifest, bumped on breaking changes */
+export const MANIFEST_VERSION = 1;
+
+/** hardhat-deploy names of the contracts recorded in a deployment manifest */
+export const MANIFEST_CONTRACTS = [
+  'ProxyAdmin',
+  'FragmentNFT',
+  'DatasetNFT',
+  'ERC20SubscriptionManager',
+  'DistributionManager',
+  'VerifierManager',
+  'AcceptManuallyVerifier',
+  'AcceptAllVerifier',
+  'DatasetFactory',
+] as const;
+
+export type ManifestContractName = (typeof MANIFEST_CONTRACTS)[number];
+
+/** DatasetNFT roles recorded in a deployment manifest */
+export const MANIFEST_ROLES: Record<string, BytesLike> = {
+  DEFAULT_ADMIN_ROLE: ZeroHash,
+  SIGNER_ROLE,
+  APPROVED_TOKEN_ROLE,
+  WHITELISTED_MANAGER_ROLE,
+};
+
+// ERC1967 storage slots of the implementation and admin of a proxy
+const IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+const ADMIN_SLOT = '0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103';
+
+// Block range of each role events query, kept under the usual RPC limits
+const BLOCK_RANGE = 2000;
+
+export interface DeployedContract {
+  address: string;
+  abi: unknown[];
+  transactionHash?: string;
+  blockNumber?: number;
+}
+
+export interface ManifestContract extends DeployedContract {
+  /** keccak256 of the runtime code at `address` */
+  codeHash: string;
+}
+
+export interface ManifestProxy extends ManifestContract {
+  implementation: string;
+  implementationCodeHash: string;
+  admin: string;
+}
+
+export interface DeploymentManifest {
+  version: number;
+  network: string;
+  chainId: number;
+  generatedAt: string;
+  /** Commit the contracts were deployed from, null outside of a git checkout */
+  git: { commit: string; dirty: boolean } | null;
+  compiler: SolidityConfig;
+  contracts: Record<Exclude<ManifestContractName, 'DatasetNFT'>, ManifestContract> & {
+    DatasetNFT: ManifestProxy;
+  };
+  configuration: {
+    fragmentImplementation: string;
+    deployerFeeBeneficiary: string;
+    datasetFactory: string;
+    eip712SignaturesEnabled: boolean;
+    subscriptionManagerImpl: string;
+    distributionManagerImpl: string;
+    verifierManagerImpl: string;
+  };
+  /** Holders of the DatasetNFT roles, by role name */
+  roles: Record<string, string[]>;
+}
+
+const readGit = (): DeploymentManifest['git'] => {
+  try {
+    const git = (command: string) =>
+      execSync(`git ${command}`, { stdio: ['ignore', 'pipe', 'ignore'] })
+        .toString()
+        .trim();
+
+    return {
+      commit: git('rev-parse HEAD'),
+      dirty: git('status --porcelain --untracked-files=no') !== '',
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Replays the `RoleGranted` and `RoleRevoked` events of `dataset` since `fromBlock`,
+ * returning the current holders of each of the `MANIFEST_ROLES`
+ */
+async function readRoles(
+  dataset: DatasetNFT,
+  fromBlock: number
+): Promise<Record<string, string[]>> {
+  const toBlock = await dataset.runner!.provider!.getBlockNumber();
+  const events = [];
+
+  for (let from = fromBlock; from <= toBlock; from += BLOCK_RANGE) {
+    const to = Math.min(from + BLOCK_RANGE - 1, toBlock);
+    events.push(
+      ...(await dataset.queryFilter(dataset.filters.RoleGranted(), from, to)),
+      ...(await dataset.queryFilter(dataset.filters.RoleRevoked(), from, to))
+    );
+  }
+
+  events.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+  const members: Record<string, Set<string>> = {};
+  for (const event of events) {
+    const role = (members[event.args.role] ??= new Set());
+    if (event.eventName === 'RoleGranted') role.add(getAddress(event.args.account));
+    else role.delete(getAddress(event.args.account));
+  }
+
+  return Object.fromEntries(
+    Object.entries(MANIFEST_ROLES).map(([name, role]) => [
+      name,
+      [...(members[role.toString()] ?? [])],
+    ])
+  );
+}
+
+/**
+ * Builds the deployment manifest of `contracts` from the live chain state:
+ * code hashes, DatasetNFT proxy slots, configuration and role holders
+ */
+export async function buildDeploymentManifest(
+  hre: HardhatRuntimeEnvironment,
+  contracts: Record<ManifestContractName, DeployedContract>
+): Promise<DeploymentManifest> {
+  const { provider } = hre.ethers;
+
+  const codeHash = async (address: string) => keccak256(await provider.getCode(address));
+  const slotAddress = async (address: string, slot: string) =>
+    getAddress(dataSlice(await provider.getStorage(address, slot), 12));
+
+  const snapshot = async ({ address, abi, transactionHash, blockNumber }: DeployedContract) => ({
+    address: getAddress(address),
+    codeHash: await codeHash(address),
+    transactionHash,
+    blockNumber,
+    abi,
+  });
+
+  const manifestContracts = {} as DeploymentManifest['contracts'];
+  for (const name of MANIFEST_CONTRACTS) {
+    if (name === 'DatasetNFT') continue;
+    manifestContracts[name] = await snapshot(contracts[name]);
+  }
+
+  const datasetAddress = contracts.DatasetNFT.address;
+  const implementation = await slotAddress(datasetAddress, IMPLEMENTATION_SLOT);
+  manifestContracts.DatasetNFT = {
+    ...(await snapshot(contracts.DatasetNFT)),
+    implementation,
+    implementationCodeHash: await codeHash(implementation),
+    admin: await slotAddress(datasetAddress, ADMIN_SLOT),
+  };
+
+  const dataset = (await hre.ethers.getContractAt(
+    'DatasetNFT',
+    datasetAddress
+  )) as unknown as DatasetNFT;
+  const factory = (await hre.ethers.getContractAt(
+    'DatasetFactory',
+    contracts.DatasetFactory.address
+  )) as unknown as DatasetFactory;
+
+  return {
+    version: MANIFEST_VERSION,
+    network: hre.network.name,
+    chainId: Number((await provider.getNetwork()).chainId),
+    generatedAt: new Date().toISOString(),
+    git: readGit(),
+    compiler: hre.config.solidity,
+    contracts: manifestContracts,
+    configuration: {
+      fragmentImplementation: await dataset.fragmentImplementation(),
+      deployerFeeBeneficiary: await dataset.deployerFeeBeneficiary(),
+      datasetFactory: await dataset.datasetFactory(),
+      eip712SignaturesEnabled: await dataset.eip712SignaturesEnabled(),
+      subscriptionManagerImpl: await factory.subscriptionManagerImpl(),
+      distributionManagerImpl: await factory.distributionManagerImpl(),
+      verifierManagerImpl: await factory.verifierManagerImpl(),
+    },
+    roles: await readRoles(dataset, contracts.DatasetNFT.blockNumber ?? 0),
+  };
+}
+
+/**
+ * Returns the differences between the chain state recorded in `expected` and the one in `live`,
+ * ignoring ABIs, compiler settings and generation details
+ */
+export function diffDeploymentManifest(
+  expected: DeploymentManifest,
+  live: DeploymentManifest
+): string[] {
+  const differences: string[] = [];
+
+  const compare = (field: string, expectedValue: unknown, liveValue: unknown) => {
+    if (JSON.stringify(expectedValue) !== JSON.stringify(liveValue))
+      differences.push(
+        `${field}: expected ${JSON.stringify(expectedValue)}, found ${JSON.stringify(liveValue)}`
+      );
+  };
+
+  compare('chainId', expected.chainId, live.chainId);
+
+  for (const name of MANIFEST_CONTRACTS) {
+    compare(`${name}.codeHash`, expected.contracts[name].codeHash, live.contracts[name].codeHash);
+  }
+  for (const field of ['implementation', 'implementationCodeHash', 'admin'] as const) {
+    compare(
+      `DatasetNFT.${field}`,
+      expected.contracts.DatasetNFT[field],
+      live.contracts.DatasetNFT[field]
+    );
+  }
+
+  for (const [key, value] of Object.entries(expected.configuration)) {
+    compare(
+      `configuration.${key}`,
+      value,
+      live.configuration[key as keyof DeploymentManifest['configuration']]
+    );
+  }
+
+  for (const [name, members] of Object.entries(expected.roles)) {
+    compare(`roles.${name}`, [...members].sort(), [...(live.roles[name] ?? [])].sort());
+  }
+
+  return differences;
+}
@@ -1,4 +1,5 @@
 import 'dotenv/config';
+import { dataLength, isHexString } from 'ethers';
 
 export function getNodeUrl(networkName: string): string {
   if (networkName) {
@@ -43,3 +44,18 @@ export function getMnemonic(networkName?: string): string {
 export function getAccounts(networkName?: string): { mnemonic: string } {
   return { mnemonic: getMnemonic(networkName) };
 }
+
+/**
+ * Returns the salt of the deterministic (CREATE2) deployments of the protocol contracts,
+ * or undefined when `DEPLOYMENT_SALT` is not set and the contracts are deployed from the deployer account
+ */
+export function getDeploymentSalt(salt = process.env.DEPLOYMENT_SALT): string | undefined {
+  if (!salt || salt === '') {
+    return undefined;
+  }
+
+  if (!isHexString(salt) || dataLength(salt) > 32) {
+    throw new Error(`invalid deployment salt, expected up to 32 bytes of hex data: ${salt}`);
+  }
+  return salt;
+}
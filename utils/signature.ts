@@ -0,0 +1,266 @@
+import type { DatasetNFT } from '../typechain-types';
+import {
+  AddressLike,
+  BigNumberish,
+  SignatureLike,
+  Signer,
+  TypedDataDomain,
+  TypedDataEncoder,
+  TypedDataField,
+  getBytes,
+  hashMessage,
+  solidityPacked,
+  verifyMessage,
+  verifyTypedData,
+} from 'ethers';
+
+/**
+ * EIP-712 typed data signed by the DT service when EIP-712 signatures are enabled in the DatasetNFT contract
+ */
+export interface TypedData {
+  domain: TypedDataDomain;
+  types: Record<string, TypedDataField[]>;
+  value: Record<string, unknown>;
+}
+
+/**
+ * Message signed by the DT service, either legacy packed data or EIP-712 typed data
+ */
+export type SignatureMessage = Uint8Array | TypedData;
+
+export const EIP712_VERSION = '1';
+
+const getDomain = (
+  name: string,
+  chainId: BigNumberish,
+  verifyingContract: string
+): TypedDataDomain => ({
+  name,
+  version: EIP712_VERSION,
+  chainId,
+  verifyingContract,
+});
+
+const isTypedData = (message: SignatureMessage): message is TypedData =>
+  !(message instanceof Uint8Array);
+
+/**
+ * Packed message signed by the DT service to authorize the minting of a Dataset.
+ * Mirrors `DatasetNFT._mintMessageHash`.
+ */
+export const getDatasetMintMessage = (
+  chainId: BigNumberish,
+  datasetAddress: AddressLike,
+  datasetUuidHash: string,
+  to: AddressLike
+): Uint8Array => {
+  const message = solidityPacked(
+    ['uint256', 'address', 'bytes32', 'address'],
+    [chainId, datasetAddress, datasetUuidHash, to]
+  );
+
+  return getBytes(message);
+};
+
+/**
+ * Packed message signed by the DT service to authorize a single Fragment proposal.
+ * Mirrors `FragmentNFT._proposeMessageHash`.
+ */
+export const getDatasetFragmentProposeMessage = (
+  chainId: BigNumberish,
+  datasetAddress: AddressLike,
+  datasetId: bigint,
+  counter: bigint,
+  owner: AddressLike,
+  tag: string
+): Uint8Array => {
+  const proposeMessage = solidityPacked(
+    ['uint256', 'address', 'uint256', 'uint256', 'address', 'bytes32'],
+    [chainId, datasetAddress, datasetId, counter, owner, tag]
+  );
+
+  return getBytes(proposeMessage);
+};
+
+/**
+ * Packed message signed by the DT service to authorize a batch of Fragment proposals.
+ * Mirrors `FragmentNFT._proposeManyMessageHash`, where `fromId` and `toId` are the first and last pending Fragment IDs.
+ */
+export const getDatasetFragmentProposeBatchMessage = (
+  chainId: BigNumberish,
+  datasetAddress: AddressLike,
+  datasetId: bigint,
+  fromId: bigint,
+  toId: bigint,
+  owners: AddressLike[],
+  tags: string[]
+): Uint8Array => {
+  const proposeMessage = solidityPacked(
+    ['uint256', 'address', 'uint256', 'uint256', 'address[]', 'uint256', 'bytes32[]'],
+    [chainId, datasetAddress, datasetId, fromId, owners, toId, tags]
+  );
+
+  return getBytes(proposeMessage);
+};
+
+/**
+ * Packed message signed by the DT service to authorize a revenue claim from a DistributionManager.
+ * Mirrors `DistributionManager._claimRevenueMessageHash`, where `nonce` is the next claim nonce of the beneficiary
+ * (see `DistributionManager.claimNonces`).
+ */
+export const getRevenueClaimMessage = (
+  chainId: BigNumberish,
+  distributionAddress: AddressLike,
+  beneficiary: AddressLike,
+  signatureValidSince: bigint,
+  signatureValidTill: bigint,
+  nonce: bigint
+): Uint8Array => {
+  const revenueClaimMessage = solidityPacked(
+    ['uint256', 'address', 'address', 'uint256', 'uint256', 'uint256'],
+    [chainId, distributionAddress, beneficiary, signatureValidSince, signatureValidTill, nonce]
+  );
+
+  return getBytes(revenueClaimMessage);
+};
+
+/**
+ * EIP-712 typed data signed by the DT service to authorize the minting of a Dataset.
+ * Mirrors `DatasetNFT._mintMessageHash` when EIP-712 signatures are enabled.
+ */
+export const getDatasetMintTypedData = (
+  chainId: BigNumberish,
+  datasetAddress: string,
+  datasetUuidHash: string,
+  to: string
+): TypedData => ({
+  domain: getDomain('DatasetNFT', chainId, datasetAddress),
+  types: {
+    Mint: [
+      { name: 'uuidHashed', type: 'bytes32' },
+      { name: 'to', type: 'address' },
+    ],
+  },
+  value: { uuidHashed: datasetUuidHash, to },
+});
+
+/**
+ * EIP-712 typed data signed by the DT service to authorize a single Fragment proposal.
+ * Mirrors `FragmentNFT._proposeMessageHash` when EIP-712 signatures are enabled,
+ * where the verifying contract is the FragmentNFT instance of the Dataset.
+ */
+export const getDatasetFragmentProposeTypedData = (
+  chainId: BigNumberish,
+  fragmentAddress: string,
+  datasetId: bigint,
+  counter: bigint,
+  owner: string,
+  tag: string
+): TypedData => ({
+  domain: getDomain('FragmentNFT', chainId, fragmentAddress),
+  types: {
+    Propose: [
+      { name: 'datasetId', type: 'uint256' },
+      { name: 'id', type: 'uint256' },
+      { name: 'to', type: 'address' },
+      { name: 'tag', type: 'bytes32' },
+    ],
+  },
+  value: { datasetId, id: counter, to: owner, tag },
+});
+
+/**
+ * EIP-712 typed data signed by the DT service to authorize a batch of Fragment proposals.
+ * Mirrors `FragmentNFT._proposeManyMessageHash` when EIP-712 signatures are enabled,
+ * where the verifying contract is the FragmentNFT instance of the Dataset.
+ */
+export const getDatasetFragmentProposeBatchTypedData = (
+  chainId: BigNumberish,
+  fragmentAddress: string,
+  datasetId: bigint,
+  fromId: bigint,
+  toId: bigint,
+  owners: string[],
+  tags: string[]
+): TypedData => ({
+  domain: getDomain('FragmentNFT', chainId, fragmentAddress),
+  types: {
+    ProposeMany: [
+      { name: 'datasetId', type: 'uint256' },
+      { name: 'fromId', type: 'uint256' },
+      { name: 'toId', type: 'uint256' },
+      { name: 'owners', type: 'address[]' },
+      { name: 'tags', type: 'bytes32[]' },
+    ],
+  },
+  value: { datasetId, fromId, toId, owners, tags },
+});
+
+/**
+ * EIP-712 typed data signed by the DT service to authorize a revenue claim from a DistributionManager.
+ * Mirrors `DistributionManager._claimRevenueMessageHash` when EIP-712 signatures are enabled.
+ */
+export const getRevenueClaimTypedData = (
+  chainId: BigNumberish,
+  distributionAddress: string,
+  beneficiary: string,
+  signatureValidSince: bigint,
+  signatureValidTill: bigint,
+  nonce: bigint
+): TypedData => ({
+  domain: getDomain('DistributionManager', chainId, distributionAddress),
+  types: {
+    ClaimRevenue: [
+      { name: 'beneficiary', type: 'address' },
+      { name: 'sigValidSince', type: 'uint256' },
+      { name: 'sigValidTill', type: 'uint256' },
+      { name: 'nonce', type: 'uint256' },
+    ],
+  },
+  value: {
+    beneficiary,
+    sigValidSince: signatureValidSince,
+    sigValidTill: signatureValidTill,
+    nonce,
+  },
+});
+
+/**
+ * Returns the hash the contracts recover the signer of `message` from:
+ * the Ethereum Signed Message hash of packed data (`ECDSA.toEthSignedMessageHash`),
+ * or the EIP-712 hash of typed data (`ECDSA.toTypedDataHash`)
+ */
+export const getMessageHash = (message: SignatureMessage): string => {
+  if (isTypedData(message))
+    return TypedDataEncoder.hash(message.domain, message.types, message.value);
+  return hashMessage(message);
+};
+
+/**
+ * Signs `message` with `signer`, which should hold the SIGNER_ROLE in the DatasetNFT contract
+ */
+export const signMessage = (signer: Signer, message: SignatureMessage): Promise<string> => {
+  if (isTypedData(message))
+    return signer.signTypedData(message.domain, message.types, message.value);
+  return signer.signMessage(message);
+};
+
+/**
+ * Recovers the address that signed `message`
+ */
+export const recoverSigner = (message: SignatureMessage, signature: SignatureLike): string => {
+  if (isTypedData(message))
+    return verifyTypedData(message.domain, message.types, message.value, signature);
+  return verifyMessage(message, signature);
+};
+
+/**
+ * Checks whether `message` was signed by an account holding the SIGNER_ROLE in `dataset`
+ */
+export const verifySignature = async (
+  dataset: Pick<DatasetNFT, 'isSigner'>,
+  message: SignatureMessage,
+  signature: SignatureLike
+): Promise<boolean> => {
+  return dataset.isSigner(recoverSigner(message, signature));
+};